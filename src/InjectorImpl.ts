@@ -1,210 +1,1105 @@
 import { Scope } from './api/Scope';
-import { InjectionToken, INJECTOR_TOKEN, TARGET_TOKEN } from './api/InjectionToken';
-import { InjectableClass, InjectableFunction, Injectable } from './api/Injectable';
+import { InjectionToken, INJECTOR_TOKEN, TARGET_TOKEN, ProvidableToken, ProvidableType, AsyncProvidableType, MultiProvidableType, TokenDescriptor, NotProvidedYet } from './api/InjectionToken';
+import { InjectorGraph, ProviderDescription, ProviderKind, DependencyDescription } from './api/InjectorGraph';
+import { InjectableClass, InjectableFunction, Injectable, AsyncInjectableClass, AsyncInjectableFunction, ClassWithInjections } from './api/Injectable';
 import { Injector } from './api/Injector';
 import { Exception } from './Exception';
+import { CircularDependencyError, NoProviderError, InjectorDisposedError, TokenAlreadyProvidedError, InjectionFailedError, OutOfScopeError, ScopeMismatchError, DisposeFailedError, DisposeTimeoutError, DisposeFailure, UnresolvedToken, ValidationError } from './errors';
 import { Disposable } from './api/Disposable';
-import { isDisposable } from './utils';
+import { DisposeOptions } from './api/DisposeOptions';
+import { Interceptor } from './api/Interceptor';
+import { Instrumentation, ProviderEvent } from './api/Instrumentation';
+import { Module } from './api/Module';
+import { ContextualBindings, ContextualRule } from './api/ContextualBindings';
+import { AssistedClass, AssistedContext, AssistedFactory } from './api/AssistedFactory';
+import { isDisposable, isInitializable, isOptionalToken, isLazyToken } from './utils';
 import { TChildContext } from './api/TChildContext';
+import { ResolvedType, ContextType, MultiContextType } from './api/CorrespondingType';
+import { performance } from 'perf_hooks';
 
 const DEFAULT_SCOPE = Scope.Singleton;
 
+/**
+ * The providers that are currently creating their value, in order of resolution.
+ * Resolving is synchronous, so all injectors can share the same stack.
+ */
+const resolutionStack: ChildInjector<any, any, any>[] = [];
+
+function currentPath(): ProvidableToken[] {
+  return resolutionStack.map(provider => provider.token);
+}
+
+/**
+ * The scope that is currently resolving a value, if any.
+ * Values of `Scope.Scoped` providers are cached in this scope, or else in the nearest scope the provider was provided on.
+ */
+let activeScope: ScopeInjector<any> | undefined;
+
+function currentScope(provider: ChildInjector<any, any, any>): ScopeInjector<any> {
+  const scope = activeScope || provider.nearestScope();
+  if (scope) {
+    return scope;
+  } else {
+    throw new OutOfScopeError(provider.token, [...currentPath(), provider.token]);
+  }
+}
+
+/**
+ * Resolves with the scope as the active scope, unless the active scope is nested in it (or is the scope itself), as a nested scope takes precedence.
+ * Another scope, for example a sibling scope that is created while resolving, becomes active until it is done.
+ */
+function resolveInScope<T>(scope: ScopeInjector<any> | undefined, resolve: () => T): T {
+  if (!scope || (activeScope && activeScope.isNestedIn(scope))) {
+    return resolve();
+  }
+  const previousScope = activeScope;
+  activeScope = scope;
+  try {
+    return resolve();
+  } finally {
+    activeScope = previousScope;
+  }
+}
+
+/**
+ * The branch that is currently resolving a value, if any.
+ * Transient values that no cached value depends on are disposed with it, including the values that the providers of its parents create.
+ */
+let activeBranch: BoundaryInjector<any> | undefined;
+
+/**
+ * Resolves with the branch as the active branch, unless the active branch was created from it (or is the branch itself).
+ */
+function resolveInBranch<T>(branch: BoundaryInjector<any>, resolve: () => T): T {
+  if (activeBranch && activeBranch.includes(branch)) {
+    return resolve();
+  }
+  const previousBranch = activeBranch;
+  activeBranch = branch;
+  try {
+    return resolve();
+  } finally {
+    activeBranch = previousBranch;
+  }
+}
+
+/**
+ * The injector on which the resolution that is in progress was started, if any.
+ * Lazy tokens that are provided after the class or function that injects them are resolved from it.
+ */
+let resolvingInjector: AbstractInjector<any> | undefined;
+
+function resolveFrom<T>(injector: AbstractInjector<any>, resolve: () => T): T {
+  if (resolvingInjector) {
+    return resolve();
+  }
+  resolvingInjector = injector;
+  try {
+    return resolve();
+  } finally {
+    resolvingInjector = undefined;
+  }
+}
+
+interface Created {
+  readonly provider: ChildInjector<any, any, any>;
+  /**
+   * The class or function the value was created for.
+   */
+  readonly target: Function | undefined;
+  /**
+   * A sequence number shared by all injectors, so values can be disposed in reverse creation order.
+   */
+  readonly sequence: number;
+}
+
+/**
+ * Disposable values, mapped to the provider that created them and the moment they were created.
+ */
+type Disposables = Map<Disposable, Created>;
+
+let creationSequence = 0;
+
+/**
+ * Incremented each time a class is replaced, so providers know when to check whether their cached values are stale.
+ */
+let replacements = 0;
+
+/**
+ * Disposes the values one by one, in reverse creation order.
+ * A value is always created after its dependencies, so it is disposed before its dependencies are.
+ * Keeps going when a value can't be disposed and reports all failures afterwards.
+ */
+async function disposeInReverseCreationOrder(disposables: Disposables[], timeout: number | undefined) {
+  const values = disposables
+    .map(values => [...values])
+    .reduce((all, values) => all.concat(values), [])
+    .sort(([, a], [, b]) => b.sequence - a.sequence);
+  const failures: DisposeFailure[] = [];
+  for (const [value, { provider, target }] of values) {
+    const startTime = performance.now();
+    let error: unknown;
+    try {
+      await disposeWithTimeout(value, provider.token, timeout);
+    } catch (err) {
+      error = err;
+      failures.push({ error, token: provider.token });
+    }
+    provider.notify('onDispose', target, { duration: performance.now() - startTime, error });
+  }
+  if (failures.length) {
+    throw new DisposeFailedError(failures);
+  }
+}
+
+async function disposeWithTimeout(value: Disposable, token: ProvidableToken, timeout: number | undefined) {
+  const disposing = new Promise<void>(resolve => resolve(value.dispose()));
+  if (timeout === undefined) {
+    await disposing;
+  } else {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new DisposeTimeoutError(token, timeout)), timeout);
+    });
+    try {
+      await Promise.race([disposing, timedOut]);
+    } finally {
+      clearTimeout(timer!);
+    }
+  }
+}
+
+interface IndexEntry {
+  readonly depth: number;
+  readonly multi: boolean;
+}
+
+/**
+ * The tokens of a chain of providers, by the depth at which they are provided, so a provider can check its token without walking the chain.
+ * A chain shares its index with the first provider that is added to it. A provider that is added to an injector that already has one
+ * starts a new branch, which gets an index of its own on top of the index of the chain.
+ * The index only holds tokens, so a chain doesn't keep the providers of its branches alive.
+ */
+class ProviderIndex {
+  private readonly entries = new Map<ProvidableToken, IndexEntry[]>();
+  /**
+   * The depth of the last provider that was added.
+   */
+  public depth: number;
+
+  constructor(private readonly base: ProviderIndex | undefined, private readonly baseDepth: number) {
+    this.depth = baseDepth;
+  }
+
+  public add(token: ProvidableToken, depth: number, multi: boolean) {
+    this.depth = depth;
+    const entry = { depth, multi };
+    const entries = this.entries.get(token);
+    if (entries) {
+      entries.push(entry);
+    } else {
+      this.entries.set(token, [entry]);
+    }
+  }
+
+  /**
+   * Finds the provider of the token that is nearest to the depth, at or above it.
+   */
+  public find(token: ProvidableToken, depth: number): IndexEntry | undefined {
+    const entry = [...this.entries.get(token) || []].reverse().find(candidate => candidate.depth <= depth);
+    return entry || (this.base && this.base.find(token, Math.min(depth, this.baseDepth)));
+  }
+}
+
+/**
+ * The token table of the frozen injector that is currently resolving a value, if any.
+ * Providers use it to find the injector that resolves their dependencies, instead of walking the chain of parents.
+ */
+let activeTable: TokenTable | undefined;
+
+/**
+ * An injector in a token table.
+ */
+interface Link {
+  resolve(token: never, target?: Function): unknown;
+}
+
+interface TableEntry {
+  readonly position: number;
+  readonly injector: Link;
+}
+
+function firstAtOrBelow(entries: TableEntry[], position: number) {
+  return entries.find(entry => entry.position >= position);
+}
+
+/**
+ * A flat table of the injectors of a chain, from top to bottom.
+ * It knows which injectors resolve a token themselves: the providers of that token, scopes and the root injector.
+ */
+class TokenTable {
+  private readonly positions = new Map<Link, number>();
+  private readonly entries = new Map<ProvidableToken, TableEntry[]>();
+  private readonly catchAllEntries: TableEntry[] = [];
+
+  /**
+   * Adds an injector that passes every token on to its parent.
+   */
+  public addLink(injector: Link): TableEntry {
+    const entry = { injector, position: this.positions.size };
+    this.positions.set(injector, entry.position);
+    return entry;
+  }
+
+  /**
+   * Adds an injector that resolves `token` itself.
+   */
+  public addHandler(injector: Link, token: ProvidableToken) {
+    const entry = this.addLink(injector);
+    const entries = this.entries.get(token);
+    if (entries) {
+      entries.push(entry);
+    } else {
+      this.entries.set(token, [entry]);
+    }
+  }
+
+  /**
+   * Adds an injector that resolves every token itself.
+   */
+  public addCatchAll(injector: Link) {
+    this.catchAllEntries.push(this.addLink(injector));
+  }
+
+  public isProvided(token: ProvidableToken) {
+    return this.entries.has(token);
+  }
+
+  /**
+   * Finds the first injector, starting at `from` and going down the chain, that resolves `token` itself.
+   */
+  public next(from: Link, token: ProvidableToken): Link {
+    const position = this.positions.get(from);
+    if (position === undefined) {
+      // Not part of this chain, for example when a factory resolves a value from an unrelated injector
+      return from;
+    }
+    // The root injector is always a catch-all, so there is always one
+    const catchAll = firstAtOrBelow(this.catchAllEntries, position)!;
+    const handler = firstAtOrBelow(this.entries.get(token) || [], position);
+    return handler && handler.position < catchAll.position ? handler.injector : catchAll.injector;
+  }
+
+  /**
+   * Determines whether an injector, starting at `from` and going down the chain, provides `token`.
+   * Returns `undefined` when `from` isn't part of this chain.
+   */
+  public isProvidedFrom(from: Link, token: ProvidableToken): boolean | undefined {
+    const position = this.positions.get(from);
+    if (position === undefined) {
+      return undefined;
+    }
+    return !!firstAtOrBelow(this.entries.get(token) || [], position);
+  }
+}
+
+/**
+ * Resolves the token using the table, if any, starting at `from`. The table stays active while the value is resolved.
+ */
+function resolveInTable(table: TokenTable | undefined, from: Link, token: ProvidableToken, target: Function | undefined): unknown {
+  if (!table) {
+    return from.resolve(token as never, target);
+  }
+  const previousTable = activeTable;
+  activeTable = table;
+  try {
+    return table.next(from, token).resolve(token as never, target);
+  } finally {
+    activeTable = previousTable;
+  }
+}
+
+function isObject(value: unknown): value is object {
+  return (typeof value === 'object' && value !== null) || typeof value === 'function';
+}
+
+/**
+ * Wraps objects and functions only once, so cached values stay the same after they are wrapped.
+ * Primitives can't be told apart, so they are wrapped every time.
+ * Remembers the original value of each wrapped object, so a wrapped value can be released.
+ */
+class WrappedValues {
+  private readonly wrappedValues = new WeakMap<object, unknown>();
+  private readonly originalValues = new WeakMap<object, unknown>();
+
+  public wrap<T>(value: T, wrap: (value: T) => T): T {
+    if (!isObject(value)) {
+      return wrap(value);
+    }
+    if (!this.wrappedValues.has(value)) {
+      const wrapped = wrap(value);
+      this.wrappedValues.set(value, wrapped);
+      if (isObject(wrapped)) {
+        this.originalValues.set(wrapped, value);
+      }
+    }
+    return this.wrappedValues.get(value) as T;
+  }
+
+  /**
+   * Finds the value that was wrapped. Returns the value itself when it isn't a wrapped value.
+   */
+  public original(value: unknown): unknown {
+    return isObject(value) && this.originalValues.has(value) ? this.originalValues.get(value) : value;
+  }
+}
+
+function matches(rule: ContextualRule<any, unknown>, target: Function) {
+  if ('target' in rule) {
+    return target === rule.target;
+  } else if ('targetExtends' in rule) {
+    return target === rule.targetExtends || target.prototype instanceof rule.targetExtends;
+  } else {
+    return rule.when(target);
+  }
+}
+
+function describeDependencies(tokens: TokenDescriptor[]): DependencyDescription[] {
+  return tokens
+    .filter(token => token !== INJECTOR_TOKEN && token !== TARGET_TOKEN)
+    .map(token => {
+      if (isOptionalToken(token)) {
+        return { kind: 'optional' as const, token: token.token };
+      } else if (isLazyToken(token)) {
+        return { kind: 'lazy' as const, token: token.token };
+      } else {
+        return { kind: 'required' as const, token };
+      }
+    });
+}
+
+function cantRelease(token: ProvidableToken, scope: Scope) {
+  return new Exception(`Can't release the value of token "${String(token)}", as it is cached with scope "${scope}". Only transient values can be released.`);
+}
+
+function injectionFailed(injectable: Function, path: ProvidableToken[], error: Error) {
+  if (error instanceof Exception) {
+    return error;
+  } else {
+    return new InjectionFailedError(injectable, path[path.length - 1], path, error);
+  }
+}
+
 /*
 
 # Composite design pattern:
 
-         ┏━━━━━━━━━━━━━━━━━━┓
-         ┃ AbstractInjector ┃
-         ┗━━━━━━━━━━━━━━━━━━┛
-                   ▲
-                   ┃
-          ┏━━━━━━━━┻━━━━━━━━┓
-          ┃                 ┃
- ┏━━━━━━━━┻━━━━━┓   ┏━━━━━━━┻━━━━━━━┓
- ┃ RootInjector ┃   ┃ ChildInjector ┃
- ┗━━━━━━━━━━━━━━┛   ┗━━━━━━━━━━━━━━━┛
+        ┏━━━━━━━━━━━━━━━━━━┓
+        ┃ AbstractInjector ┃
+        ┗━━━━━━━━━━━━━━━━━━┛
+                  ▲
+                  ┃
+         ┏━━━━━━━━┻━━━━━━━━━┳━━━━━━━━━━━━━━━━━━━━━━┓
+ ┏━━━━━━━┻━━━━━━┓   ┏━━━━━━━┻━━━━━━━┓   ┏━━━━━━━━━━┻━━━━━━━━━┓
+ ┃ RootInjector ┃   ┃ ChildInjector ┃   ┃ DelegatingInjector ┃
+ ┗━━━━━━━━━━━━━━┛   ┗━━━━━━━━━━━━━━━┛   ┗━━━━━━━━━━━━━━━━━━━━┛
                             ▲
                             ┃
-          ┏━━━━━━━━━━━━━━━━━┻━┳━━━━━━━━━━━━━━━━┓
- ┏━━━━━━━━┻━━━━━━━━┓ ┏━━━━━━━━┻━━━━━━┓ ┏━━━━━━━┻━━━━━━━┓
- ┃ FactoryInjector ┃ ┃ ClassInjector ┃ ┃ ValueInjector ┃
- ┗━━━━━━━━━━━━━━━━━┛ ┗━━━━━━━━━━━━━━━┛ ┗━━━━━━━━━━━━━━━┛
+         ┏━━━━━━━━━━━━━━━━━┳┻━━━━━━━━━━━━━━━━━┳━━━━━━━━━━━━━┓
+ ┏━━━━━━━┻━━━━━━━┓ ┏━━━━━━━┻━━━━━━━┓ ┏━━━━━━━━┻━━━━━━━━┓ ┏━━┻━━┓
+ ┃ ValueProvider ┃ ┃ ClassProvider ┃ ┃ FactoryProvider ┃ ┃ ... ┃
+ ┗━━━━━━━━━━━━━━━┛ ┗━━━━━━━━━━━━━━━┛ ┗━━━━━━━━━━━━━━━━━┛ ┗━━━━━┛
+
+                                        ┏━━━━━━━━━━━━━━━━━━━━┓
+                                        ┃ DelegatingInjector ┃
+                                        ┗━━━━━━━━━━━━━━━━━━━━┛
+                                                   ▲
+                                                   ┃
+         ┏━━━━━━━━━━━━━━━━━━━┳━━━━━━━━━━━━━━━━━━━━━┻┳━━━━━━━━━━━━━━━━━━━━━┳━━━━━━━━━━━━━━━━━━━━━┓
+ ┏━━━━━━━┻━━━━━━━┓ ┏━━━━━━━━━┻━━━━━━━━┓ ┏━━━━━━━━━━━┻━━━━━━━━━━┓ ┏━━━━━━━━┻━━━━━━━┓ ┏━━━━━━━━━━━┻━━━━━━━━━━┓
+ ┃ ScopeInjector ┃ ┃ BoundaryInjector ┃ ┃ InstrumentedInjector ┃ ┃ FrozenInjector ┃ ┃ InterceptingInjector ┃
+ ┗━━━━━━━━━━━━━━━┛ ┗━━━━━━━━━━━━━━━━━━┛ ┗━━━━━━━━━━━━━━━━━━━━━━┛ ┗━━━━━━━━━━━━━━━━┛ ┗━━━━━━━━━━━━━━━━━━━━━━┛
 */
 
 abstract class AbstractInjector<TContext> implements Injector<TContext>  {
 
+  protected isDisposed = false;
+
   public injectClass<R, Tokens extends InjectionToken<TContext>[]>(Class: InjectableClass<TContext, R, Tokens>, providedIn?: Function): R {
+    this.throwIfDisposed(Class);
     try {
       const args: any[] = this.resolveParametersToInject(Class, providedIn);
       return new Class(...args as any);
     } catch (error) {
-      throw new Exception(`Could not inject "${Class.name}"`, error);
+      throw injectionFailed(Class, currentPath(), error);
+    }
+  }
+
+  /**
+   * Injects the class with the values of the assisted tokens, and resolves its other dependencies. Used by assisted factories.
+   */
+  public injectAssistedClass<R>(Class: ClassWithInjections<any, R, any[]>, assistedValues: Map<string, unknown>, providedIn?: Function): R {
+    this.throwIfDisposed(Class);
+    try {
+      const args: any[] = this.resolveParametersToInject(Class, providedIn, assistedValues);
+      return new Class(...args);
+    } catch (error) {
+      throw injectionFailed(Class, currentPath(), error);
     }
   }
 
   public injectFunction<R, Tokens extends InjectionToken<TContext>[]>(fn: InjectableFunction<TContext, R, Tokens>, providedIn?: Function): R {
+    this.throwIfDisposed(fn);
     try {
       const args: any[] = this.resolveParametersToInject(fn, providedIn);
       return fn(...args as any);
     } catch (error) {
-      throw new Exception(`Could not inject "${fn.name}"`, error);
+      throw injectionFailed(fn, currentPath(), error);
+    }
+  }
+
+  public async injectClassAsync<R, Tokens extends InjectionToken<TContext>[]>(Class: AsyncInjectableClass<TContext, R, Tokens>, providedIn?: Function): Promise<R> {
+    this.throwIfDisposed(Class);
+    const path = currentPath();
+    try {
+      const args: any[] = await Promise.all(this.resolveParametersToInject(Class, providedIn));
+      return new Class(...args as any);
+    } catch (error) {
+      throw injectionFailed(Class, path, error);
+    }
+  }
+
+  public async injectFunctionAsync<R, Tokens extends InjectionToken<TContext>[]>(fn: AsyncInjectableFunction<TContext, R, Tokens>, providedIn?: Function): Promise<ResolvedType<R>> {
+    this.throwIfDisposed(fn);
+    const path = currentPath();
+    try {
+      const args: any[] = await Promise.all(this.resolveParametersToInject(fn, providedIn));
+      return await fn(...args as any) as ResolvedType<R>;
+    } catch (error) {
+      throw injectionFailed(fn, path, error);
     }
   }
 
-  private resolveParametersToInject<Tokens extends InjectionToken<TContext>[]>(injectable: Injectable<TContext, any, Tokens>, target?: Function): any[] {
+  private resolveParametersToInject<Tokens extends InjectionToken<TContext>[]>(injectable: Injectable<TContext, any, Tokens> | AsyncInjectableClass<TContext, any, Tokens> | AsyncInjectableFunction<TContext, any, Tokens>, target?: Function, assistedValues?: Map<unknown, unknown>): any[] {
     const tokens: InjectionToken<TContext>[] = (injectable as any).inject || [];
-    return tokens.map(key => {
+    return resolveFrom(this, () => tokens.map(key => {
       switch (key) {
         case TARGET_TOKEN:
           return target as any;
         case INJECTOR_TOKEN:
           return this as any;
         default:
+          if (assistedValues && assistedValues.has(key)) {
+            return assistedValues.get(key);
+          }
+          if (isOptionalToken(key)) {
+            return this.resolveOptional(key.token, injectable);
+          }
+          if (isLazyToken(key)) {
+            return this.resolveLazy(key.token, injectable);
+          }
           return this.resolveInternal(key, injectable);
       }
-    });
+    }));
+  }
+
+  private provides(token: ProvidableToken) {
+    const providedFromTable = activeTable && activeTable.isProvidedFrom(this, token);
+    return providedFromTable === undefined ? this.isProvided(token) : providedFromTable;
+  }
+
+  private resolveOptional(token: ProvidableToken, target: Function) {
+    if (this.provides(token)) {
+      return this.resolveInternal(token as keyof TContext, target);
+    } else {
+      return undefined;
+    }
+  }
+
+  private resolveLazy(token: ProvidableToken, target: Function) {
+    // The value may be resolved after the scope and the frozen injector that are injecting stopped resolving
+    const scope = activeScope;
+    const table = activeTable;
+    // A token that is provided later can only be found from the injector that started resolving, as long as this injector is one of its parents
+    const from: AbstractInjector<any> = !this.provides(token) && resolvingInjector && resolvingInjector.includes(this) ? resolvingInjector : this;
+    return () => {
+      this.throwIfDisposed(token);
+      return resolveInScope(scope, () => resolveInTable(table, from, token, target));
+    };
   }
 
-  public provideValue<Token extends string, R>(token: Token, value: R)
-    : AbstractInjector<TContext & TChildContext<R, Token>> {
+  public provideValue<Token extends ProvidableToken, R extends NotProvidedYet<TContext, Token, ProvidableType<Token>>>(token: Token, value: R)
+    : Injector<TContext & TChildContext<R, Token>> {
     return new ValueProvider(this, token, value);
   }
 
-  public provideClass<Token extends string, R, Tokens extends InjectionToken<TContext>[]>(token: Token, Class: InjectableClass<TContext, R, Tokens>, scope = DEFAULT_SCOPE)
-    : AbstractInjector<TContext & TChildContext<R, Token>> {
+  public provideClass<Token extends ProvidableToken, R extends NotProvidedYet<TContext, Token, ProvidableType<Token>>, Tokens extends InjectionToken<TContext>[]>(token: Token, Class: InjectableClass<TContext, R, Tokens>, scope = DEFAULT_SCOPE)
+    : Injector<TContext & TChildContext<R, Token>> {
     return new ClassProvider(this, token, scope, Class);
   }
-  public provideFactory<Token extends string, R, Tokens extends InjectionToken<TContext>[]>(token: Token, factory: InjectableFunction<TContext, R, Tokens>, scope = DEFAULT_SCOPE)
-    : AbstractInjector<TContext & TChildContext<R, Token>> {
+  public provideFactory<Token extends ProvidableToken, R extends NotProvidedYet<TContext, Token, ProvidableType<Token>>, Tokens extends InjectionToken<TContext>[]>(token: Token, factory: InjectableFunction<TContext, R, Tokens>, scope = DEFAULT_SCOPE)
+    : Injector<TContext & TChildContext<R, Token>> {
     return new FactoryProvider(this, token, scope, factory);
   }
+  public provideAsyncFactory<Token extends ProvidableToken, R extends NotProvidedYet<TContext, Token, AsyncProvidableType<Token>>, Tokens extends InjectionToken<TContext>[]>(token: Token, factory: AsyncInjectableFunction<TContext, PromiseLike<R>, Tokens>, scope = DEFAULT_SCOPE)
+    : Injector<TContext & TChildContext<Promise<R>, Token>> {
+    return new AsyncFactoryProvider(this, token, scope, factory);
+  }
+  public provideMulti<Token extends keyof TContext & ProvidableToken, R extends MultiContextType<TContext, Token>, Tokens extends InjectionToken<TContext>[]>(token: Token, Class: InjectableClass<TContext, R, Tokens>, scope?: Scope)
+    : Injector<TContext>;
+  public provideMulti<Token extends ProvidableToken, R extends NotProvidedYet<TContext, Token, MultiProvidableType<Token>>, Tokens extends InjectionToken<TContext>[]>(token: Token extends keyof TContext ? never : Token, Class: InjectableClass<TContext, R, Tokens>, scope?: Scope)
+    : Injector<TContext & TChildContext<R[], Token>>;
+  public provideMulti<R, Tokens extends InjectionToken<TContext>[]>(token: ProvidableToken, Class: InjectableClass<TContext, R, Tokens>, scope = DEFAULT_SCOPE)
+    : Injector<any> {
+    return new MultiProvider(this, token, scope, Class) as AbstractInjector<any>;
+  }
+
+  public provideAssistedFactory<Token extends ProvidableToken, AssistedToken extends string, AssistedTokens extends [] | AssistedToken[], R extends NotProvidedYet<TContext, Token, unknown>,
+    Tokens extends InjectionToken<TContext & AssistedContext<AssistedTokens[number]>>[], Args extends unknown[]>(token: Token, Class: AssistedClass<TContext, AssistedTokens[number], R, Tokens, Args>, assistedTokens: AssistedTokens)
+    : Injector<TContext & TChildContext<AssistedFactory<Tokens, Args, AssistedTokens, R>, Token>> {
+    return new AssistedFactoryProvider(this, token, Class, assistedTokens) as Injector<any>;
+  }
 
-  public resolve<Token extends keyof TContext>(token: Token, target?: Function): TContext[Token] {
-    return this.resolveInternal(token, target);
+  public provideContextual<Token extends ProvidableToken, R extends NotProvidedYet<TContext, Token, ProvidableType<Token>>>(token: Token, bindings: ContextualBindings<TContext, R>, scope = DEFAULT_SCOPE)
+    : Injector<TContext & TChildContext<R, Token>> {
+    return new ContextualProvider(this, token, scope, bindings);
   }
 
-  public abstract dispose(): Promise<void>;
+  public provideDecorator<Token extends keyof TContext & ProvidableToken>(token: Token, decorator: (value: ContextType<TContext, Token>) => ContextType<TContext, Token>)
+    : Injector<TContext> {
+    return new DecoratorProvider(this, token, decorator) as AbstractInjector<any>;
+  }
+
+  public resolve<Token extends keyof TContext>(token: Token, target?: Function): ContextType<TContext, Token> {
+    this.throwIfDisposed(token);
+    return resolveFrom(this, () => this.resolveInternal(token, target));
+  }
+
+  public intercept<Token extends keyof TContext>(token: Token, interceptor: Interceptor<ContextType<TContext, Token>>): AbstractInjector<TContext> {
+    if (!this.isProvided(token as ProvidableToken)) {
+      throw new Exception(`Token "${String(token)}" can't be intercepted, as it isn't provided.`);
+    }
+    return new InterceptingInjector(this, token as ProvidableToken, interceptor as Interceptor<unknown>);
+  }
+
+  public createScope(): AbstractInjector<TContext> {
+    return new ScopeInjector(this);
+  }
+
+  public createChild(): AbstractInjector<TContext> {
+    return new BoundaryInjector(this);
+  }
+
+  public instrument(instrumentation: Instrumentation): AbstractInjector<TContext> {
+    return new InstrumentedInjector(this, instrumentation);
+  }
+
+  public use<TProvided>(module: Module<TContext, TProvided>): Injector<TContext & TProvided> {
+    return module(this) as Injector<TContext & TProvided>;
+  }
+
+  public freeze(): AbstractInjector<TContext> {
+    return new FrozenInjector(this);
+  }
+
+  public describe(): InjectorGraph {
+    return { providers: this.providers().map(provider => provider.describeSelf()) };
+  }
+
+  protected throwIfDisposed(injectableOrToken: Function | PropertyKey) {
+    if (this.isDisposed) {
+      if (typeof injectableOrToken === 'function') {
+        throw new InjectorDisposedError(undefined, injectableOrToken, currentPath());
+      } else {
+        throw new InjectorDisposedError(injectableOrToken as ProvidableToken, undefined, [...currentPath(), injectableOrToken as ProvidableToken]);
+      }
+    }
+  }
+
+  public async resolveAsync<Token extends keyof TContext>(token: Token, target?: Function): Promise<ResolvedType<ContextType<TContext, Token>>> {
+    return this.resolve(token, target) as any;
+  }
 
-  protected abstract resolveInternal<Token extends keyof TContext>(token: Token, target?: Function): TContext[Token];
+  public abstract init(): Promise<void>;
+
+  public async dispose(options: DisposeOptions = {}): Promise<void> {
+    await disposeInReverseCreationOrder(this.detachDisposables(), options.timeout);
+  }
+
+  public validate(...injectables: Function[]): void {
+    const provided = new Set<ProvidableToken>();
+    const unresolved: UnresolvedToken[] = [];
+    const check = (dependencies: DependencyDescription[], requestedBy: ProvidableToken | Function) => dependencies
+      // Optional tokens may be missing, lazy tokens may be provided later, as they are resolved when they are called
+      .filter(dependency => dependency.kind !== 'optional' && !provided.has(dependency.token) && !(dependency.kind === 'lazy' && this.isProvided(dependency.token)))
+      .forEach(({ token }) => unresolved.push({ requestedBy, token }));
+    for (const provider of this.providers().map(provider => provider.describeSelf())) {
+      // A provider can only inject the tokens that were provided before it
+      check(provider.dependencies, provider.token);
+      provided.add(provider.token);
+    }
+    injectables.forEach(injectable => check(describeDependencies((injectable as any).inject || []), injectable));
+    if (unresolved.length) {
+      throw new ValidationError(unresolved);
+    }
+  }
+
+  public async replace<Token extends keyof TContext & ProvidableToken, Tokens extends InjectionToken<TContext>[]>(token: Token, Class: InjectableClass<TContext, ContextType<TContext, Token>, Tokens>)
+    : Promise<void> {
+    this.throwIfDisposed(token);
+    const provider = this.providerOf(token);
+    if (!(provider instanceof ClassProvider)) {
+      throw new Exception(`Token "${String(token)}" can't be replaced, as it isn't provided with provideClass.`);
+    }
+    const stale = provider.replaceClass(Class);
+    // The dependents in this chain are refreshed right away, other chains refresh their dependents when they resolve them
+    this.providers().forEach(dependent => dependent.refresh(stale));
+    await disposeInReverseCreationOrder([stale], undefined);
+  }
+
+  public async release(value: unknown, options: DisposeOptions = {}): Promise<void> {
+    const untracked = this.untrack(value as Disposable);
+    if (untracked) {
+      await disposeInReverseCreationOrder([untracked], options.timeout);
+    } else if (!this.isDisposed) {
+      throw new Exception('Can\'t release a value that this injector doesn\'t keep track of. Only transient values that it (or one of its parents) created can be released.');
+    }
+  }
+
+  protected abstract resolveInternal<Token extends keyof TContext>(token: Token, target?: Function): ContextType<TContext, Token>;
+
+  // The members below aren't part of the `Injector` interface. They are public, so injectors can ask their parent.
+
+  /**
+   * The instrumentations that are notified about the providers of this injector.
+   */
+  public abstract readonly instrumentations: readonly Instrumentation[];
+
+  /**
+   * Determines whether or not this injector (or one of its parents) provides a value for given token.
+   */
+  public abstract isProvided(token: ProvidableToken): boolean;
+
+  /**
+   * Whether or not the token is provided using `provideMulti`.
+   */
+  public abstract isMultiProvided(token: ProvidableToken): boolean;
+
+  /**
+   * The providers of this injector and its parents, in the order in which they were provided.
+   */
+  public abstract providers(): ChildInjector<any, any, any>[];
+
+  /**
+   * Marks this injector (and the parents it is responsible for) as disposed and returns the values to dispose.
+   */
+  public abstract detachDisposables(): Disposables[];
+
+  /**
+   * Stops tracking a transient value of this injector (or one of its parents) and returns the value to dispose.
+   * That is the original value when `value` is intercepted or decorated.
+   */
+  public abstract untrack(value: Disposable): Disposables | undefined;
+
+  /**
+   * Finds the provider of the token in this injector or its parents. Decorators refer to the provider they decorate.
+   */
+  public abstract providerOf(token: ProvidableToken): ChildInjector<any, any, any> | undefined;
+
+  /**
+   * Adds this injector and its parents to the table, from top to bottom.
+   */
+  public abstract addToTable(table: TokenTable): void;
+
+  /**
+   * Finds the innermost scope in this injector or its parents, if any.
+   */
+  public abstract nearestScope(): ScopeInjector<any> | undefined;
+
+  /**
+   * Whether the injector is this injector or one of its parents.
+   */
+  public abstract includes(injector: AbstractInjector<any>): boolean;
+
+  /**
+   * The number of providers of this injector and its parents.
+   */
+  public abstract readonly depth: number;
+
+  /**
+   * The tokens of the providers of this injector and its parents, if any. Providers that are added to this injector share it, or build on it.
+   */
+  public abstract readonly providerIndex: ProviderIndex | undefined;
 }
 
 class RootInjector extends AbstractInjector<{}> {
-  public resolveInternal(token: never)
+  public readonly instrumentations: readonly Instrumentation[] = [];
+  public readonly depth = 0;
+  public readonly providerIndex = undefined;
+  public resolveInternal(token: never, target?: Function)
     : never {
-    throw new Error(`No provider found for "${token}"!.`);
+    throw new NoProviderError(token, target, [...currentPath(), token]);
+  }
+  public isProvided() {
+    return false;
   }
-  public dispose() {
+  public isMultiProvided() {
+    return false;
+  }
+  public providers() {
+    return [];
+  }
+  public init() {
     return Promise.resolve();
   }
+  public detachDisposables() {
+    return [];
+  }
+  public untrack() {
+    return undefined;
+  }
+  public providerOf() {
+    return undefined;
+  }
+  public addToTable(table: TokenTable) {
+    table.addCatchAll(this);
+  }
+  public nearestScope() {
+    return undefined;
+  }
+  public includes(injector: AbstractInjector<any>): boolean {
+    return injector === this;
+  }
 }
 
-abstract class ChildInjector<TParentContext, TProvided, CurrentToken extends string> extends AbstractInjector<(TParentContext & TChildContext<TProvided, CurrentToken>)> {
+abstract class ChildInjector<TParentContext, TProvided, CurrentToken extends ProvidableToken> extends AbstractInjector<(TParentContext & TChildContext<TProvided, CurrentToken>)> {
 
-  private cached: { value?: any } | undefined;
-  private readonly disposables = new Set<Disposable>();
+  private readonly cachedValues = new Map<unknown, TProvided>();
+  private readonly disposables: Disposables = new Map();
+  /**
+   * The providers that this provider resolved values of while creating its own values, with their version at that time.
+   * Only the dependent knows about the dependency, so a long-lived provider never keeps the providers of a short-lived chain alive.
+   */
+  private readonly usedProviders = new Map<ChildInjector<any, any, any>, number>();
+  /**
+   * Incremented when the cached values are dropped, so dependents know that their own values are stale.
+   */
+  private version = 0;
+  private checkedReplacements = replacements;
+  private readonly initializations = new Set<Promise<void>>();
+  public readonly instrumentations: readonly Instrumentation[];
+  public readonly depth: number;
+  public readonly providerIndex: ProviderIndex;
 
   constructor(protected readonly parent: AbstractInjector<TParentContext>,
-              protected readonly token: CurrentToken,
+              public readonly token: CurrentToken,
               private readonly scope: Scope) {
     super();
-    let currentParent: any = this.parent;
-    while (currentParent) {
-      if (currentParent.token && this.token === currentParent.token) {
-        throw new Exception(`Token: ${this.token} is already used on this injector.`);
-      }
-      currentParent = currentParent.parent;
-    } 
+    this.instrumentations = parent.instrumentations;
+    if (this.isAlreadyProvided()) {
+      throw new TokenAlreadyProvidedError(this.token);
+    }
+    this.depth = parent.depth + 1;
+    const parentIndex = parent.providerIndex;
+    this.providerIndex = parentIndex && parentIndex.depth === parent.depth ? parentIndex : new ProviderIndex(parentIndex, parent.depth);
+    this.providerIndex.add(token, this.depth, this instanceof MultiProvider);
   }
 
-  protected abstract responsibleForDisposing: boolean;
+  protected isAlreadyProvided() {
+    return this.parent.isProvided(this.token);
+  }
+
+  protected abstract responsibleForLifecycle: boolean;
+  protected abstract kind: ProviderKind;
   protected abstract result(target: Function | undefined): TProvided;
+  protected abstract dependencies(): TokenDescriptor[];
 
-  protected isDisposed = false;
+  public async init() {
+    this.throwIfDisposed(this.token);
+    await this.parent.init();
+    if (this.scope === Scope.Singleton) {
+      await this.provide(undefined);
+    }
+    await Promise.all(this.initializations);
+  }
 
-  public injectClass
-    <R, Tokens extends InjectionToken<(TParentContext & TChildContext<TProvided, CurrentToken>)>[]>(Class: InjectableClass<(TParentContext & TChildContext<TProvided, CurrentToken>), R, Tokens>, providedIn?: Function): R {
-    this.throwIfDisposed(Class);
-    return super.injectClass(Class, providedIn);
+  public detachDisposables(): Disposables[] {
+    if (this.isDisposed) {
+      return [];
+    } else {
+      this.isDisposed = true; // be sure new disposables aren't added while we're disposing
+      this.cachedValues.clear();
+      this.usedProviders.clear();
+      return [this.disposables, ...this.parent.detachDisposables()];
+    }
   }
-  public injectFunction
-    <R, Tokens extends InjectionToken<(TParentContext & TChildContext<TProvided, CurrentToken>)>[]>(fn: InjectableFunction<(TParentContext & TChildContext<TProvided, CurrentToken>), R, Tokens>, providedIn?: Function): R {
-    this.throwIfDisposed(fn);
-    return super.injectFunction(fn, providedIn);
+
+  public untrack(value: Disposable): Disposables | undefined {
+    if (this.isDisposed) {
+      return undefined;
+    }
+    const created = this.disposables.get(value);
+    if (!created) {
+      return this.parent.untrack(value);
+    }
+    if (this.scope !== Scope.Transient) {
+      throw cantRelease(this.token, this.scope);
+    }
+    this.disposables.delete(value);
+    return new Map([[value, created]]);
   }
 
-  public resolve<Token extends keyof (TParentContext & TChildContext<TProvided, CurrentToken>)>(token: Token, target?: Function): (TParentContext & TChildContext<TProvided, CurrentToken>)[Token] {
-    this.throwIfDisposed(token);
-    return super.resolve(token, target);
+  protected resolveInternal<SearchToken extends keyof (TParentContext & TChildContext<TProvided, CurrentToken>)>(token: SearchToken, target: Function | undefined)
+    : ContextType<TParentContext & TChildContext<TProvided, CurrentToken>, SearchToken> {
+    if (token === this.token) {
+      this.notify('onResolve', target);
+      return this.provide(target) as any;
+    } else {
+      const next: Link = activeTable ? activeTable.next(this.parent, token as ProvidableToken) : this.parent;
+      return next.resolve(token as never, target) as any;
+    }
   }
 
-  private throwIfDisposed(injectableOrToken: Function | Symbol | number | string | undefined) {
-    if (this.isDisposed) {
-      throw new Exception(`Injector is already disposed. Please don't use it anymore.${additionalErrorMessage()}`);
+  protected provide(target: Function | undefined): TProvided {
+    const version = this.refresh();
+    // Only providers that are creating a value are on the stack
+    const dependent = resolutionStack[resolutionStack.length - 1];
+    if (dependent) {
+      dependent.usedProviders.set(this, version);
     }
-    function additionalErrorMessage() {
-      if (typeof injectableOrToken === 'function') {
-        return ` Tried to inject "${injectableOrToken.name}".`;
-      } else {
-        return ` Tried to resolve "${injectableOrToken}".`;
+    switch (this.scope) {
+      case Scope.Scoped: {
+        const scope = currentScope(this);
+        // A singleton that is created in a scope would keep the scoped value after the scope is disposed
+        const captor = resolutionStack.find(provider => provider.scope === Scope.Singleton && provider.nearestScope() !== scope);
+        if (captor) {
+          throw new ScopeMismatchError(this.token, captor.token, [...currentPath(), this.token]);
+        }
+        const key = this.cacheKey(target);
+        if (scope.hasValue(this, key)) {
+          this.notify('onCacheHit', target);
+        }
+        return scope.provide(this, key, disposables => this.createValue(target, disposables));
+      }
+      case Scope.Singleton: {
+        const key = this.cacheKey(target);
+        if (this.cachedValues.has(key)) {
+          this.notify('onCacheHit', target);
+        } else {
+          this.cachedValues.set(key, this.createValue(target, this.disposables));
+        }
+        return this.cachedValues.get(key) as TProvided;
+      }
+      case Scope.Untracked:
+        return this.createValue(target, undefined);
+      default: {
+        // A cached value that depends on the transient value may outlive the branch
+        const branch = resolutionStack.some(provider => provider.scope === Scope.Singleton || provider.scope === Scope.Scoped) ? undefined : activeBranch;
+        return this.createValue(target, branch ? branch.disposables : this.disposables);
       }
     }
   }
 
-  public async dispose() {
-    if (!this.isDisposed) {
-      this.isDisposed = true; // be sure new disposables aren't added while we're disposing
-      await this.disposeInjectedValues();
-      this.parent.dispose();
+  /**
+   * Drops the cached values when one of the providers they were created with was (transitively) replaced, and returns the current version.
+   * Only checks the providers it used once after each replacement, as resolving is a hot path.
+   * The stale values are moved to `stale`, or disposed right away when nobody is waiting for them.
+   */
+  public refresh(stale?: Disposables): number {
+    if (this.checkedReplacements !== replacements) {
+      this.checkedReplacements = replacements;
+      if ([...this.usedProviders].some(([provider, version]) => provider.refresh(stale) !== version)) {
+        const values = this.evict();
+        if (stale) {
+          values.forEach((created, value) => stale.set(value, created));
+        } else {
+          disposeInReverseCreationOrder([values], undefined).catch(() => {
+            // The failures are reported to the instrumentations
+          });
+        }
+      }
+    }
+    return this.version;
+  }
+
+  /**
+   * Drops the cached values, so they are created again when they are resolved. Returns the values that need to be disposed.
+   * Values cached in a scope are left alone.
+   */
+  protected evict(): Disposables {
+    const stale: Disposables = new Map();
+    this.cachedValues.forEach(value => {
+      const created = this.disposables.get(value as any);
+      if (created) {
+        this.disposables.delete(value as any);
+        stale.set(value as any, created);
+      }
+    });
+    this.cachedValues.clear();
+    this.usedProviders.clear();
+    this.version++;
+    return stale;
+  }
+
+  /**
+   * Forgets a cached value, so it is created again when it is resolved. Does nothing when the value isn't cached (anymore).
+   */
+  protected uncache(target: Function | undefined, value: TProvided) {
+    const key = this.cacheKey(target);
+    if (this.cachedValues.get(key) === value) {
+      this.cachedValues.delete(key);
     }
   }
 
-  private async disposeInjectedValues() {
-    const promisesToAwait = [...this.disposables.values()]
-      .map(disposable => disposable.dispose());
-    await Promise.all(promisesToAwait);
+  /**
+   * The key to cache a value by, in this provider or in a scope. By default, a provider caches one value for all targets.
+   */
+  protected cacheKey(_target: Function | undefined): unknown {
+    return undefined;
   }
 
-  protected resolveInternal<SearchToken extends keyof (TParentContext & TChildContext<TProvided, CurrentToken>)>(token: SearchToken, target: Function | undefined)
-    : (TParentContext & TChildContext<TProvided, CurrentToken>)[SearchToken] {
-    if (token === this.token) {
-      if (this.cached) {
-        return this.cached.value as any;
-      } else {
-        const value = this.result(target);
-        this.addToDisposablesIfNeeded(value);
-        this.addToCacheIfNeeded(value);
-        return value as any;
+  private createValue(target: Function | undefined, disposables: Disposables | undefined): TProvided {
+    // Only instrumentations use the time, and creating values is a hot path
+    const startTime = this.instrumentations.length ? performance.now() : 0;
+    const value = this.resolveResult(target);
+    if (this.responsibleForLifecycle) {
+      this.instantiated(value, target, startTime);
+      if (disposables) {
+        this.registerDisposable(value, target, disposables);
       }
-    } else {
-      return this.parent.resolve(token as any, target) as any;
+      this.initialize(value);
     }
+    return value;
   }
 
-  private addToCacheIfNeeded(value: TProvided) {
-    if (this.scope === Scope.Singleton) {
-      this.cached = { value };
+  protected instantiated(_value: TProvided, target: Function | undefined, startTime: number) {
+    if (this.instrumentations.length) {
+      this.notify('onInstantiate', target, { duration: performance.now() - startTime, startTime });
+    }
+  }
+
+  protected registerDisposable(value: TProvided, target: Function | undefined, disposables: Disposables) {
+    if (isDisposable(value)) {
+      disposables.set(value, { provider: this, sequence: creationSequence++, target });
+    }
+  }
+
+  protected initialize(value: TProvided) {
+    if (isInitializable(value)) {
+      this.addInitialization(new Promise<void>(resolve => resolve(value.onInit())));
     }
   }
 
-  private addToDisposablesIfNeeded(value: TProvided) {
-    if (this.responsibleForDisposing && isDisposable(value)) {
-      this.disposables.add(value);
+  /**
+   * Keeps track of the initialization until it is done, so `init()` can await it.
+   */
+  protected addInitialization(initialization: Promise<void>) {
+    this.initializations.add(initialization);
+    initialization.then(() => this.initializations.delete(initialization), () => {
+      // The rejection is reported by `init()`
+    });
+  }
+
+  private resolveResult(target: Function | undefined): TProvided {
+    const index = resolutionStack.indexOf(this);
+    if (index >= 0) {
+      const path = resolutionStack.slice(index).map(provider => provider.token);
+      throw new CircularDependencyError([...path, this.token]);
+    }
+    resolutionStack.push(this);
+    try {
+      return this.result(target);
+    } finally {
+      resolutionStack.pop();
     }
   }
 
+  public isProvided(token: ProvidableToken): boolean {
+    return !!this.providerIndex.find(token, this.depth);
+  }
+
+  public isMultiProvided(token: ProvidableToken): boolean {
+    const entry = this.providerIndex.find(token, this.depth);
+    return !!entry && entry.multi;
+  }
+
+  public providers(): ChildInjector<any, any, any>[] {
+    return [...this.parent.providers(), this];
+  }
+
+  public providerOf(token: ProvidableToken): ChildInjector<any, any, any> | undefined {
+    return token === this.token ? this : this.parent.providerOf(token);
+  }
+
+  public addToTable(table: TokenTable) {
+    table.addHandler(this, this.token);
+    this.parent.addToTable(table);
+  }
+
+  public nearestScope(): ScopeInjector<any> | undefined {
+    return this.parent.nearestScope();
+  }
+
+  public includes(injector: AbstractInjector<any>): boolean {
+    return injector === this || this.parent.includes(injector);
+  }
+
+  public describeSelf(): ProviderDescription {
+    return {
+      cached: this.cachedValues.size > 0,
+      dependencies: describeDependencies(this.dependencies()),
+      kind: this.kind,
+      scope: this.describedScope,
+      token: this.token
+    };
+  }
+
+  /**
+   * The scope as it is shown to the outside world. Values don't have a scope.
+   */
+  protected get describedScope(): Scope | undefined {
+    return this.scope;
+  }
+
+  /**
+   * Calls the hook of each instrumentation. The event is only created when there is an instrumentation, as resolving is a hot path.
+   * Values report their disposal through the provider that created them.
+   */
+  public notify<Hook extends keyof Instrumentation>(hook: Hook, target: Function | undefined,
+                                                    details?: Omit<Parameters<Required<Instrumentation>[Hook]>[0], keyof ProviderEvent>) {
+    if (this.instrumentations.length) {
+      const event: ProviderEvent = { kind: this.kind, scope: this.describedScope, target, token: this.token, ...details };
+      for (const instrumentation of this.instrumentations) {
+        const listener = instrumentation[hook] as ((event: ProviderEvent) => void) | undefined;
+        if (listener) {
+          listener.call(instrumentation, event);
+        }
+      }
+    }
+  }
 }
 
-class ValueProvider<TParentContext, TProvided, ProvidedToken extends string> extends ChildInjector<TParentContext, TProvided, ProvidedToken> {
+class ValueProvider<TParentContext, TProvided, ProvidedToken extends ProvidableToken> extends ChildInjector<TParentContext, TProvided, ProvidedToken> {
   constructor(parent: AbstractInjector<TParentContext>, token: ProvidedToken, private readonly value: TProvided) {
     super(parent, token, Scope.Transient);
   }
   protected result(): TProvided {
     return this.value;
   }
-  protected readonly responsibleForDisposing = false;
+  protected dependencies() {
+    return [];
+  }
+  public describeSelf(): ProviderDescription {
+    return { ...super.describeSelf(), cached: true };
+  }
+  protected get describedScope() {
+    return undefined;
+  }
+  protected readonly responsibleForLifecycle = false;
+  protected readonly kind = 'value';
 }
 
-class FactoryProvider<TParentContext, TProvided, ProvidedToken extends string, Tokens extends InjectionToken<TParentContext>[]>
+class FactoryProvider<TParentContext, TProvided, ProvidedToken extends ProvidableToken, Tokens extends InjectionToken<TParentContext>[]>
   extends ChildInjector<TParentContext, TProvided, ProvidedToken> {
   constructor(parent: AbstractInjector<TParentContext>,
               token: ProvidedToken,
@@ -215,20 +1110,448 @@ class FactoryProvider<TParentContext, TProvided, ProvidedToken extends string, T
   protected result(target: Function): TProvided {
     return this.parent.injectFunction(this.injectable, target);
   }
-  protected readonly responsibleForDisposing = true;
+  protected dependencies(): TokenDescriptor[] {
+    return (this.injectable as any).inject || [];
+  }
+  protected readonly responsibleForLifecycle = true;
+  protected readonly kind = 'factory';
 }
 
-class ClassProvider<TParentContext, TProvided, ProvidedToken extends string, Tokens extends InjectionToken<TParentContext>[]> extends ChildInjector<TParentContext, TProvided, ProvidedToken> {
+class ClassProvider<TParentContext, TProvided, ProvidedToken extends ProvidableToken, Tokens extends InjectionToken<TParentContext>[]> extends ChildInjector<TParentContext, TProvided, ProvidedToken> {
   constructor(parent: AbstractInjector<TParentContext>,
               token: ProvidedToken,
               scope: Scope,
-              private readonly injectable: InjectableClass<TParentContext, TProvided, Tokens>) {
+              private injectable: InjectableClass<TParentContext, TProvided, Tokens>) {
     super(parent, token, scope);
   }
+  /**
+   * Creates new values using `Class` from now on. Returns the values that were created with the previous class and need to be disposed.
+   */
+  public replaceClass(Class: InjectableClass<TParentContext, TProvided, Tokens>): Disposables {
+    const missing = describeDependencies((Class as any).inject || [])
+      .find(dependency => dependency.kind === 'required' && !this.parent.isProvided(dependency.token));
+    if (missing) {
+      throw new NoProviderError(missing.token, Class, [this.token, missing.token]);
+    }
+    this.injectable = Class;
+    replacements++;
+    return this.evict();
+  }
   protected result(target: Function): TProvided {
     return this.parent.injectClass(this.injectable, target);
   }
-  protected readonly responsibleForDisposing = true;
+  protected dependencies(): TokenDescriptor[] {
+    return (this.injectable as any).inject || [];
+  }
+  protected readonly responsibleForLifecycle = true;
+  protected readonly kind = 'class';
+}
+
+class AsyncFactoryProvider<TParentContext, TProvided, ProvidedToken extends ProvidableToken, Tokens extends InjectionToken<TParentContext>[]>
+  extends ChildInjector<TParentContext, Promise<TProvided>, ProvidedToken> {
+  constructor(parent: AbstractInjector<TParentContext>,
+              token: ProvidedToken,
+              scope: Scope,
+              private readonly injectable: AsyncInjectableFunction<TParentContext, PromiseLike<TProvided>, Tokens>) {
+    super(parent, token, scope);
+  }
+  protected result(target: Function): Promise<TProvided> {
+    return this.parent.injectFunctionAsync(this.injectable, target) as Promise<TProvided>;
+  }
+  protected instantiated(value: Promise<TProvided>, target: Function | undefined, startTime: number) {
+    // Report the time it took for the promise to resolve. The rejection is handled by the consumer of the value,
+    // but a rejected value isn't cached, so the factory is called again the next time it is resolved
+    value.then(() => super.instantiated(value, target, startTime), () => this.uncache(target, value));
+  }
+  protected registerDisposable(value: Promise<TProvided>, target: Function | undefined, disposables: Disposables) {
+    value.then(resolved => {
+      if (isDisposable(resolved)) {
+        disposables.set(resolved, { provider: this, sequence: creationSequence++, target });
+      }
+    }, () => {
+      // The rejection is handled by the consumer of the value
+    });
+  }
+  protected initialize(value: Promise<TProvided>) {
+    // Only a failing `onInit` is reported by `init()`, a rejected value is handled by its consumer
+    this.addInitialization(value.then(resolved => isInitializable(resolved) ? resolved.onInit() : undefined, () => undefined));
+  }
+  protected dependencies(): TokenDescriptor[] {
+    return (this.injectable as any).inject || [];
+  }
+  protected readonly responsibleForLifecycle = true;
+  protected readonly kind = 'asyncFactory';
+}
+
+/**
+ * Contributes a value to a token that can be provided multiple times.
+ * Resolving the token results in an array of all contributions, in the order in which they were provided.
+ */
+class MultiProvider<TParentContext, TProvided, ProvidedToken extends ProvidableToken, Tokens extends InjectionToken<TParentContext>[]>
+  extends ChildInjector<TParentContext, TProvided, ProvidedToken> {
+  constructor(
+    parent: AbstractInjector<TParentContext>,
+    token: ProvidedToken,
+    scope: Scope,
+    private readonly injectable: InjectableClass<TParentContext, TProvided, Tokens>) {
+    super(parent, token, scope);
+  }
+  protected isAlreadyProvided() {
+    return !this.parent.isMultiProvided(this.token) && super.isAlreadyProvided();
+  }
+  protected resolveInternal<SearchToken extends keyof (TParentContext & TChildContext<TProvided, ProvidedToken>)>(token: SearchToken, target: Function | undefined)
+    : ContextType<TParentContext & TChildContext<TProvided, ProvidedToken>, SearchToken> {
+    if (token === this.token) {
+      this.notify('onResolve', target);
+      const contributions: TProvided[] = this.parent.isProvided(this.token) ? this.parent.resolve(this.token as any, target) as any : [];
+      return [...contributions, this.provide(target)] as any;
+    } else {
+      return super.resolveInternal(token, target);
+    }
+  }
+  protected result(target: Function): TProvided {
+    return this.parent.injectClass(this.injectable, target);
+  }
+  protected dependencies(): TokenDescriptor[] {
+    return (this.injectable as any).inject || [];
+  }
+  protected readonly responsibleForLifecycle = true;
+  protected readonly kind = 'multi';
+}
+
+/**
+ * Provides a function that creates a new instance of the class every time it is called.
+ * The arguments of the function are injected for the assisted tokens, the other dependencies are resolved from the parent.
+ * Each target gets its own function.
+ */
+class AssistedFactoryProvider<TParentContext, TInstance, ProvidedToken extends ProvidableToken>
+  extends ChildInjector<TParentContext, (...args: unknown[]) => TInstance, ProvidedToken> {
+  constructor(parent: AbstractInjector<TParentContext>,
+              token: ProvidedToken,
+              private readonly injectable: AssistedClass<TParentContext, string, TInstance, any, any>,
+              private readonly assistedTokens: readonly string[]) {
+    super(parent, token, Scope.Singleton);
+  }
+  protected cacheKey(target: Function | undefined) {
+    // The instances are created for the target that requested the function
+    return target;
+  }
+  protected result(target: Function | undefined) {
+    return (...args: unknown[]) => {
+      const assistedValues = new Map(this.assistedTokens.map((token, index) => [token, args[index]] as const));
+      return this.parent.injectAssistedClass(this.injectable, assistedValues, target);
+    };
+  }
+  protected dependencies(): TokenDescriptor[] {
+    return this.injectable.inject.filter((token: TokenDescriptor) => !this.assistedTokens.includes(token as string));
+  }
+  protected get describedScope() {
+    return undefined;
+  }
+  // The instances are created by the caller of the function, so the caller is responsible for them
+  protected readonly responsibleForLifecycle = false;
+  protected readonly kind = 'assistedFactory';
+}
+
+/**
+ * Provides a value per target, based on the rules of the bindings. Values are cached per target.
+ */
+class ContextualProvider<TParentContext, TProvided, ProvidedToken extends ProvidableToken> extends ChildInjector<TParentContext, TProvided, ProvidedToken> {
+  constructor(parent: AbstractInjector<TParentContext>,
+              token: ProvidedToken,
+              scope: Scope,
+              private readonly bindings: ContextualBindings<TParentContext, TProvided>) {
+    super(parent, token, scope);
+  }
+  protected cacheKey(target: Function | undefined) {
+    return target;
+  }
+  protected result(target: Function | undefined): TProvided {
+    if (target) {
+      const rule = this.bindings.rules.find(rule => matches(rule, target));
+      if (rule) {
+        return rule.use(target, this.parent);
+      }
+    }
+    return this.bindings.default(target, this.parent);
+  }
+  protected dependencies() {
+    return [];
+  }
+  protected readonly responsibleForLifecycle = true;
+  protected readonly kind = 'contextual';
+}
+
+/**
+ * Provides a decorated value for a token that is already provided. It shadows the token for providers that are added afterwards.
+ * Providers that were added before keep resolving the original value from their own parent.
+ * A decorated value lives as long as the value it decorates, as values are decorated once.
+ */
+class DecoratorProvider<TParentContext, ProvidedToken extends keyof TParentContext & ProvidableToken>
+  extends ChildInjector<TParentContext, ContextType<TParentContext, ProvidedToken>, ProvidedToken> {
+  private readonly decoratedValues = new WrappedValues();
+  constructor(parent: AbstractInjector<TParentContext>,
+              token: ProvidedToken,
+              private readonly decorator: (value: ContextType<TParentContext, ProvidedToken>) => ContextType<TParentContext, ProvidedToken>) {
+    super(parent, token, Scope.Transient);
+  }
+  protected isAlreadyProvided() {
+    // Decorating a token means providing it again
+    return false;
+  }
+  public providerOf(token: ProvidableToken): ChildInjector<any, any, any> | undefined {
+    return this.parent.providerOf(token);
+  }
+  protected result(target: Function | undefined): ContextType<TParentContext, ProvidedToken> {
+    return this.decoratedValues.wrap(this.parent.resolve(this.token, target), this.decorator);
+  }
+  public untrack(value: Disposable): Disposables | undefined {
+    // The provider of the original value keeps track of it
+    return super.untrack(this.decoratedValues.original(value) as Disposable);
+  }
+  protected dependencies(): TokenDescriptor[] {
+    return [this.token];
+  }
+  protected get describedScope() {
+    return undefined;
+  }
+  // The provider of the original value takes care of its lifecycle
+  protected readonly responsibleForLifecycle = false;
+  protected readonly kind = 'decorator';
+}
+
+/**
+ * An injector that doesn't provide anything itself. It passes everything on to its parent, unless it overrides it.
+ */
+abstract class DelegatingInjector<TContext> extends AbstractInjector<TContext> {
+
+  public readonly depth: number;
+  public readonly providerIndex: ProviderIndex | undefined;
+
+  constructor(protected readonly parent: AbstractInjector<TContext>,
+              public readonly instrumentations: readonly Instrumentation[] = parent.instrumentations) {
+    super();
+    this.depth = parent.depth;
+    this.providerIndex = parent.providerIndex;
+  }
+
+  protected resolveInternal<Token extends keyof TContext>(token: Token, target: Function | undefined): ContextType<TContext, Token> {
+    return this.parent.resolve(token, target);
+  }
+
+  public isProvided(token: ProvidableToken): boolean {
+    return this.parent.isProvided(token);
+  }
+
+  public isMultiProvided(token: ProvidableToken): boolean {
+    return this.parent.isMultiProvided(token);
+  }
+
+  public providers(): ChildInjector<any, any, any>[] {
+    return this.parent.providers();
+  }
+
+  public init() {
+    return this.parent.init();
+  }
+
+  public detachDisposables(): Disposables[] {
+    if (this.isDisposed) {
+      return [];
+    } else {
+      this.isDisposed = true;
+      return this.parent.detachDisposables();
+    }
+  }
+
+  public untrack(value: Disposable): Disposables | undefined {
+    return this.parent.untrack(value);
+  }
+
+  public providerOf(token: ProvidableToken): ChildInjector<any, any, any> | undefined {
+    return this.parent.providerOf(token);
+  }
+
+  public addToTable(table: TokenTable) {
+    table.addLink(this);
+    this.parent.addToTable(table);
+  }
+
+  public nearestScope(): ScopeInjector<any> | undefined {
+    return this.parent.nearestScope();
+  }
+
+  public includes(injector: AbstractInjector<any>): boolean {
+    return injector === this || this.parent.includes(injector);
+  }
+}
+
+class ScopeInjector<TContext> extends DelegatingInjector<TContext> {
+
+  private readonly scopedValues = new Map<ChildInjector<any, any, any>, Map<unknown, unknown>>();
+  private readonly disposables: Disposables = new Map();
+
+  public hasValue(provider: ChildInjector<any, any, any>, key: unknown) {
+    const values = this.scopedValues.get(provider);
+    return !!values && values.has(key);
+  }
+
+  public provide<T>(provider: ChildInjector<any, T, any>, key: unknown, createValue: (disposables: Disposables) => T): T {
+    this.throwIfDisposed(provider.token);
+    let values = this.scopedValues.get(provider);
+    if (!values) {
+      values = new Map();
+      this.scopedValues.set(provider, values);
+    }
+    if (!values.has(key)) {
+      values.set(key, createValue(this.disposables));
+    }
+    return values.get(key) as T;
+  }
+
+  protected resolveInternal<Token extends keyof TContext>(token: Token, target: Function | undefined): ContextType<TContext, Token> {
+    return resolveInScope(this, () => this.parent.resolve(token, target));
+  }
+
+  /**
+   * Whether this scope is the given scope, or was created from it (directly or via other injectors).
+   */
+  public isNestedIn(scope: ScopeInjector<any>): boolean {
+    const parentScope = this.parent.nearestScope();
+    return this === scope || (!!parentScope && parentScope.isNestedIn(scope));
+  }
+
+  public detachDisposables(): Disposables[] {
+    if (this.isDisposed) {
+      return [];
+    } else {
+      // Disposing a scope doesn't dispose the injector it was created from
+      this.isDisposed = true;
+      return [this.disposables];
+    }
+  }
+
+  public untrack(value: Disposable): Disposables | undefined {
+    const created = this.disposables.get(value);
+    if (created) {
+      throw cantRelease(created.provider.token, Scope.Scoped);
+    }
+    return this.parent.untrack(value);
+  }
+
+  public addToTable(table: TokenTable) {
+    // A scope needs to be active while its parents resolve any token
+    table.addCatchAll(this);
+    this.parent.addToTable(table);
+  }
+
+  public nearestScope() {
+    return this;
+  }
+}
+
+/**
+ * Marks the start of a branch of injectors. Disposing the branch disposes the values of the providers that are added to it,
+ * and the transient values that its parents created for it, but not the other values of its parent, so the parent can be used to create the next branch.
+ */
+class BoundaryInjector<TContext> extends DelegatingInjector<TContext> {
+
+  public readonly disposables: Disposables = new Map();
+
+  protected resolveInternal<Token extends keyof TContext>(token: Token, target: Function | undefined): ContextType<TContext, Token> {
+    return resolveInBranch(this, () => this.parent.resolve(token, target));
+  }
+
+  public detachDisposables(): Disposables[] {
+    if (this.isDisposed) {
+      return [];
+    } else {
+      // Disposing a branch doesn't dispose the injector it was created from
+      this.isDisposed = true;
+      return [this.disposables];
+    }
+  }
+
+  public untrack(value: Disposable): Disposables | undefined {
+    const created = this.disposables.get(value);
+    if (created) {
+      this.disposables.delete(value);
+      return new Map([[value, created]]);
+    }
+    return this.parent.untrack(value);
+  }
+
+  public addToTable(table: TokenTable) {
+    // A branch needs to be active while its parents resolve any token
+    table.addCatchAll(this);
+    this.parent.addToTable(table);
+  }
+}
+
+/**
+ * Adds an instrumentation for the providers that are added to this injector.
+ * Providers that were already added are not instrumented, since they resolve their dependencies via their own parent.
+ */
+class InstrumentedInjector<TContext> extends DelegatingInjector<TContext> {
+
+  constructor(parent: AbstractInjector<TContext>, instrumentation: Instrumentation) {
+    super(parent, [...parent.instrumentations, instrumentation]);
+  }
+}
+
+/**
+ * Wraps the values of one token that are resolved through it, including the values that are injected in the providers that are added to it.
+ * The providers of its parents keep injecting the original value, as their values are shared with other injectors.
+ * A value is wrapped once, so a cached value stays the same after it is wrapped. The lifecycle hooks are called on the original value.
+ */
+class InterceptingInjector<TContext> extends DelegatingInjector<TContext> {
+
+  private readonly interceptedValues = new WrappedValues();
+
+  constructor(parent: AbstractInjector<TContext>, private readonly token: ProvidableToken, private readonly interceptor: Interceptor<unknown>) {
+    super(parent);
+  }
+
+  protected resolveInternal<Token extends keyof TContext>(token: Token, target: Function | undefined): ContextType<TContext, Token> {
+    if (token === this.token) {
+      const next: Link = activeTable ? activeTable.next(this.parent, this.token) : this.parent;
+      return this.interceptedValues.wrap(next.resolve(token as never, target), value => this.interceptor(value, { target, token: this.token })) as any;
+    } else {
+      return super.resolveInternal(token, target);
+    }
+  }
+
+  public untrack(value: Disposable): Disposables | undefined {
+    return super.untrack(this.interceptedValues.original(value) as Disposable);
+  }
+
+  public addToTable(table: TokenTable) {
+    table.addHandler(this, this.token);
+    this.parent.addToTable(table);
+  }
+}
+
+/**
+ * Resolves tokens using a flat token table of its parents, instead of walking the chain of parents.
+ * The providers of its parents use the table as well while it is resolving, so their dependencies are found directly too.
+ * The chain can't change after it is created, so the table never needs to be updated.
+ */
+class FrozenInjector<TContext> extends DelegatingInjector<TContext> {
+
+  private readonly table = new TokenTable();
+
+  constructor(parent: AbstractInjector<TContext>) {
+    super(parent);
+    parent.addToTable(this.table);
+  }
+
+  protected resolveInternal<Token extends keyof TContext>(token: Token, target: Function | undefined): ContextType<TContext, Token> {
+    return resolveInTable(this.table, this.parent, token as ProvidableToken, target) as ContextType<TContext, Token>;
+  }
+
+  public isProvided(token: ProvidableToken): boolean {
+    return this.table.isProvided(token);
+  }
 }
 
 export const rootInjector: Injector<{}> = new RootInjector();
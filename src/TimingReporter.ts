@@ -0,0 +1,133 @@
+import { Instrumentation, InstantiateEvent } from './api/Instrumentation';
+import { ProvidableToken } from './api/InjectionToken';
+
+function formatTime(milliseconds: number) {
+  return `${milliseconds.toFixed(2)} ms`;
+}
+
+function label(event: InstantiateEvent) {
+  const details = event.scope ? `${event.kind}, ${event.scope}` : event.kind;
+  return `${String(event.token)} (${details})`;
+}
+
+function contains(outer: InstantiateEvent, inner: InstantiateEvent) {
+  return inner.startTime >= outer.startTime && inner.startTime + inner.duration <= outer.startTime + outer.duration;
+}
+
+interface NestedEvent {
+  readonly event: InstantiateEvent;
+  readonly depth: number;
+  /**
+   * The duration, without the time it took to create the values that were created for it.
+   */
+  selfTime: number;
+}
+
+interface ProviderTiming {
+  readonly label: string;
+  selfTime: number;
+  values: number;
+}
+
+/**
+ * An instrumentation that records how long it takes to create each value.
+ * Only the most recent values are recorded, so it can be used in a long running process as well.
+ * @example
+ * ```ts
+ * const reporter = new TimingReporter();
+ * const app = rootInjector.instrument(reporter).provideClass('logger', Logger).injectClass(App);
+ * reporter.print();
+ * ```
+ */
+export class TimingReporter implements Instrumentation {
+
+  private readonly events: InstantiateEvent[] = [];
+
+  /**
+   * @param maxEvents The maximum number of values to record. The oldest values are forgotten first.
+   */
+  constructor(private readonly maxEvents = 1000) { }
+
+  public onInstantiate(event: InstantiateEvent) {
+    this.events.push(event);
+    if (this.events.length > this.maxEvents) {
+      this.events.shift();
+    }
+  }
+
+  /**
+   * Forgets all values that were recorded.
+   */
+  public reset() {
+    this.events.length = 0;
+  }
+
+  /**
+   * Reports the slowest providers, followed by a timeline of all values that were created.
+   * The time of a provider is the total time it took to create its values, without the time it took to create their dependencies.
+   * A value is indented below the value that it was created for.
+   * @param top The maximum number of slowest providers to report
+   */
+  public report(top = 10): string {
+    if (!this.events.length) {
+      return 'No values were created.';
+    }
+    const nested = this.nest();
+    const slowest = this.timings(nested)
+      .sort((a, b) => b.selfTime - a.selfTime)
+      .slice(0, top)
+      .map(timing => `  ${formatTime(timing.selfTime)}  ${timing.label}, ${timing.values} ${timing.values === 1 ? 'value' : 'values'}`);
+    const origin = nested[0].event.startTime;
+    const timeline = nested.map(({ event, depth }) =>
+      `${'  '.repeat(depth + 1)}+${formatTime(event.startTime - origin)}  ${label(event)} took ${formatTime(event.duration)}`);
+    return ['Slowest providers:', ...slowest, 'Instantiation timeline:', ...timeline].join('\n');
+  }
+
+  /**
+   * Prints the report to the console.
+   * @param top The maximum number of slowest providers to report
+   */
+  public print(top?: number) {
+    console.log(this.report(top));
+  }
+
+  private nest(): NestedEvent[] {
+    // Dependencies are created while their dependent is being created, so they start later and finish earlier
+    const events = [...this.events].sort((a, b) => a.startTime - b.startTime || b.duration - a.duration);
+    const creating: NestedEvent[] = [];
+    return events.map(event => {
+      while (creating.length && !contains(creating[creating.length - 1].event, event)) {
+        creating.pop();
+      }
+      const nested: NestedEvent = { depth: creating.length, event, selfTime: event.duration };
+      if (creating.length) {
+        creating[creating.length - 1].selfTime -= event.duration;
+      }
+      creating.push(nested);
+      return nested;
+    });
+  }
+
+  private timings(nested: NestedEvent[]): ProviderTiming[] {
+    // Different tokens can have the same description, so the timings are kept per token
+    const timingsByToken = new Map<ProvidableToken, Map<string, ProviderTiming>>();
+    nested.forEach(({ event, selfTime }) => {
+      let timings = timingsByToken.get(event.token);
+      if (!timings) {
+        timings = new Map();
+        timingsByToken.set(event.token, timings);
+      }
+      const key = label(event);
+      const timing = timings.get(key);
+      if (timing) {
+        timing.selfTime += selfTime;
+        timing.values++;
+      } else {
+        timings.set(key, { label: key, selfTime, values: 1 });
+      }
+    });
+    return [...timingsByToken.values()]
+      .map(timings => [...timings.values()])
+      .reduce((all, timings) => all.concat(timings), []);
+  }
+}
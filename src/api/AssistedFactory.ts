@@ -0,0 +1,33 @@
+import { ClassWithInjections } from './Injectable';
+import { InjectionToken } from './InjectionToken';
+
+/**
+ * The tokens that are passed to an assisted factory by its caller. Their types are taken from the constructor of the class.
+ */
+export type AssistedContext<AssistedToken extends string> = {
+  [K in AssistedToken]: any;
+};
+
+/**
+ * A class that injects both provided tokens and assisted tokens.
+ * `Args` captures the constructor parameters, so the types of the assisted tokens can be found.
+ */
+export type AssistedClass<TContext, AssistedToken extends string, R, Tokens extends InjectionToken<TContext & AssistedContext<AssistedToken>>[], Args extends unknown[]> =
+  ClassWithInjections<TContext & AssistedContext<AssistedToken>, R, Tokens> & (new (...args: Args) => R);
+
+/**
+ * The type of the constructor parameter in which `AssistedToken` is injected.
+ */
+export type AssistedParameter<Tokens, Args, AssistedToken> = {
+  [K in keyof Tokens]: Tokens[K] extends AssistedToken ? (K extends keyof Args ? Args[K] : never) : never;
+}[Exclude<keyof Tokens, keyof unknown[]>];
+
+export type AssistedParameters<Tokens, Args, AssistedTokens> = {
+  [K in keyof AssistedTokens]: AssistedParameter<Tokens, Args, AssistedTokens[K]>;
+};
+
+/**
+ * A function that creates a new `R` for the values of the assisted tokens, in the order in which the assisted tokens are listed.
+ */
+export type AssistedFactory<Tokens, Args, AssistedTokens, R> =
+  AssistedParameters<Tokens, Args, AssistedTokens> extends infer Parameters ? (Parameters extends unknown[] ? (...args: Parameters) => R : never) : never;
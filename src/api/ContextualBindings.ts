@@ -0,0 +1,45 @@
+import { Injector } from './Injector';
+
+/**
+ * Matches one class or function exactly.
+ */
+export interface TargetRule<TContext, R> {
+  readonly target: Function;
+  /**
+   * Creates the value for the target. The injector can be used to resolve other dependencies.
+   */
+  use(target: Function, injector: Injector<TContext>): R;
+}
+
+/**
+ * Matches a class and all classes that extend it.
+ */
+export interface SubclassRule<TContext, R> {
+  readonly targetExtends: Function;
+  use(target: Function, injector: Injector<TContext>): R;
+}
+
+/**
+ * Matches the targets for which the predicate returns `true`.
+ */
+export interface PredicateRule<TContext, R> {
+  when(target: Function): boolean;
+  use(target: Function, injector: Injector<TContext>): R;
+}
+
+export type ContextualRule<TContext, R> = TargetRule<TContext, R> | SubclassRule<TContext, R> | PredicateRule<TContext, R>;
+
+/**
+ * Decides which value to provide, based on the target that requests it. See `injector.provideContextual()`.
+ */
+export interface ContextualBindings<TContext, R> {
+  /**
+   * The rules to try, in order. The first rule that matches the target creates the value.
+   * The rules are skipped when the value is resolved directly, without a target.
+   */
+  readonly rules: readonly ContextualRule<TContext, R>[];
+  /**
+   * Creates the value when none of the rules match. The target is `undefined` when the value is resolved directly.
+   */
+  default(target: Function | undefined, injector: Injector<TContext>): R;
+}
@@ -1,11 +1,27 @@
-import { InjectionToken, InjectorToken, TargetToken } from './InjectionToken';
+import { InjectionToken, InjectorToken, TargetToken, TypedToken, OptionalToken, LazyToken, LaterToken } from './InjectionToken';
 import { Injector } from './Injector';
 
 export type CorrespondingType<TContext, T extends InjectionToken<TContext>> =
   T extends InjectorToken ? Injector<TContext>
   : T extends TargetToken ? Function | undefined
-  : T extends keyof TContext ? TContext[T] : never;
+  : T extends OptionalToken<infer Token> ? (Token extends keyof TContext ? ContextType<TContext, Token> | undefined : undefined)
+  : T extends LaterToken<any, infer R> ? () => R
+  : T extends LazyToken<infer Token> ? (Token extends keyof TContext ? () => ContextType<TContext, Token> : never)
+  : T extends keyof TContext ? ContextType<TContext, T> : never;
+
+export type ContextType<TContext, T extends keyof TContext> = T extends TypedToken<infer R> ? R : TContext[T];
 
 export type CorrespondingTypes<TContext, TS extends InjectionToken<TContext>[]> = {
   [K in keyof TS]: TS[K] extends InjectionToken<TContext> ? CorrespondingType<TContext, TS[K]> : never;
 };
+
+export type ResolvedType<T> = T extends PromiseLike<infer U> ? U : T;
+
+export type AsyncCorrespondingTypes<TContext, TS extends InjectionToken<TContext>[]> = {
+  [K in keyof TS]: TS[K] extends InjectionToken<TContext> ? ResolvedType<CorrespondingType<TContext, TS[K]>> : never;
+};
+
+/**
+ * The type of the elements of a multi provided token.
+ */
+export type MultiContextType<TContext, T extends keyof TContext> = ContextType<TContext, T> extends (infer R)[] ? R : never;
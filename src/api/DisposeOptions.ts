@@ -0,0 +1,7 @@
+export interface DisposeOptions {
+  /**
+   * The maximum number of milliseconds to wait for a single value to be disposed.
+   * When it takes longer, disposing continues with the next value.
+   */
+  timeout?: number;
+}
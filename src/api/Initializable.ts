@@ -0,0 +1,3 @@
+export interface Initializable {
+  onInit(): void | PromiseLike<void>;
+}
@@ -1,4 +1,4 @@
-import { CorrespondingTypes } from './CorrespondingType';
+import { CorrespondingTypes, AsyncCorrespondingTypes } from './CorrespondingType';
 import { InjectionToken } from './InjectionToken';
 
 export type InjectableClass<TContext, R, Tokens extends InjectionToken<TContext>[]> =
@@ -22,3 +22,19 @@ export interface InjectableFunctionWithInject<TContext, R, Tokens extends Inject
 export type InjectableFunctionWithoutInject<R> = () => R;
 
 export type Injectable<TContext, R, Tokens extends InjectionToken<TContext>[]> = InjectableClass<TContext, R, Tokens> | InjectableFunction<TContext, R, Tokens>;
+
+export type AsyncInjectableClass<TContext, R, Tokens extends InjectionToken<TContext>[]> =
+  AsyncClassWithInjections<TContext, R, Tokens> | ClassWithoutInjections<R>;
+
+export interface AsyncClassWithInjections<TContext, R, Tokens extends InjectionToken<TContext>[]> {
+  new(...args: AsyncCorrespondingTypes<TContext, Tokens>): R;
+  readonly inject: Tokens;
+}
+
+export type AsyncInjectableFunction<TContext, R, Tokens extends InjectionToken<TContext>[]> =
+  AsyncInjectableFunctionWithInject<TContext, R, Tokens> | InjectableFunctionWithoutInject<R>;
+
+export interface AsyncInjectableFunctionWithInject<TContext, R, Tokens extends InjectionToken<TContext>[]> {
+  (...args: AsyncCorrespondingTypes<TContext, Tokens>): R;
+  readonly inject: Tokens;
+}
@@ -2,4 +2,83 @@ export type InjectorToken = '$injector';
 export type TargetToken = '$target';
 export const INJECTOR_TOKEN: InjectorToken = '$injector';
 export const TARGET_TOKEN: TargetToken = '$target';
-export type InjectionToken<TContext> = InjectorToken | TargetToken | keyof TContext;
+export type InjectionToken<TContext> = InjectorToken | TargetToken | keyof TContext | OptionalToken<ProvidableToken> | LazyToken<Extract<keyof TContext, ProvidableToken>>
+  | LaterToken<ProvidableToken, unknown>;
+
+export declare const tokenType: unique symbol;
+export declare const tokenDescription: unique symbol;
+export declare const laterType: unique symbol;
+
+/**
+ * A unique token that carries the type of the value it provides, and its description.
+ * Create one using `createToken`.
+ */
+export type TypedToken<T, Description extends string = string> = symbol & { readonly [tokenType]: T; readonly [tokenDescription]: Description };
+
+/**
+ * The tokens that can be used to provide a value with the `provideXXX` methods.
+ */
+export type ProvidableToken = string | TypedToken<any>;
+
+/**
+ * The type that needs to be provided for a token. Unconstrained for string tokens.
+ */
+export type ProvidableType<Token extends ProvidableToken> = Token extends TypedToken<infer T> ? T : unknown;
+
+/**
+ * Takes the place of the type to provide for a token that is already provided, so the compiler reports which token can't be provided again.
+ */
+export interface AlreadyProvided<Token extends string> {
+  readonly alreadyProvided: Token;
+}
+
+/**
+ * The type `T` that needs to be provided for a token, or `AlreadyProvided` if `TContext` already provides the token.
+ * Only string literal tokens are checked, since typed tokens with the same type and description can't be told apart at compile time.
+ * Contexts with an index signature (like `any`) accept every token.
+ */
+export type NotProvidedYet<TContext, Token extends ProvidableToken, T> = Token extends string & keyof TContext
+  ? (string extends keyof TContext ? T : AlreadyProvided<Token>)
+  : T;
+
+/**
+ * The type that an async factory needs to resolve for a token. Typed tokens need to carry a `Promise` type.
+ */
+export type AsyncProvidableType<Token extends ProvidableToken> = Token extends TypedToken<infer T> ? (T extends PromiseLike<infer U> ? U : never) : unknown;
+
+/**
+ * The type that a multi provider needs to contribute for a token. Typed tokens need to carry an array type.
+ */
+export type MultiProvidableType<Token extends ProvidableToken> = Token extends TypedToken<infer T> ? (T extends (infer U)[] ? U : never) : unknown;
+
+/**
+ * Marks a token as optional. `undefined` is injected when no value is provided for the token.
+ * Create one using `optional`.
+ */
+export interface OptionalToken<Token extends ProvidableToken> {
+  readonly kind: 'optional';
+  readonly token: Token;
+}
+
+/**
+ * Marks a token as lazy. A function that resolves the value is injected instead of the value itself.
+ * Create one using `lazy`.
+ */
+export interface LazyToken<Token extends ProvidableToken> {
+  readonly kind: 'lazy';
+  readonly token: Token;
+}
+
+/**
+ * Marks a token as lazy that is provided after the class or function that injects it.
+ * It carries the type of the value, as the injector that injects it doesn't know the token yet.
+ * Create one using `lazyLater`.
+ */
+export interface LaterToken<Token extends ProvidableToken, T> extends LazyToken<Token> {
+  readonly [laterType]: T;
+}
+
+/**
+ * The tokens that can be used in an `inject` property.
+ */
+export type TokenDescriptor = ProvidableToken | OptionalToken<ProvidableToken> | LazyToken<ProvidableToken>;
@@ -1,17 +1,53 @@
-import { InjectableClass, InjectableFunction } from './Injectable';
-import { InjectionToken } from './InjectionToken';
+import { InjectableClass, InjectableFunction, AsyncInjectableClass, AsyncInjectableFunction } from './Injectable';
+import { InjectionToken, ProvidableToken, ProvidableType, AsyncProvidableType, MultiProvidableType, NotProvidedYet } from './InjectionToken';
 import { Scope } from './Scope';
 import { TChildContext } from './TChildContext';
+import { ResolvedType, ContextType, MultiContextType } from './CorrespondingType';
+import { InjectorGraph } from './InjectorGraph';
+import { DisposeOptions } from './DisposeOptions';
+import { Interceptor } from './Interceptor';
+import { Instrumentation } from './Instrumentation';
+import { Module } from './Module';
+import { ContextualBindings } from './ContextualBindings';
+import { AssistedClass, AssistedContext, AssistedFactory } from './AssistedFactory';
 
 export interface Injector<TContext = {}> {
   injectClass<R, Tokens extends InjectionToken<TContext>[]>(Class: InjectableClass<TContext, R, Tokens>): R;
   injectFunction<R, Tokens extends InjectionToken<TContext>[]>(Class: InjectableFunction<TContext, R, Tokens>): R;
-  resolve<Token extends keyof TContext>(token: Token): TContext[Token];
-  provideValue<Token extends string, R>(token: Token, value: R)
+  injectClassAsync<R, Tokens extends InjectionToken<TContext>[]>(Class: AsyncInjectableClass<TContext, R, Tokens>): Promise<R>;
+  injectFunctionAsync<R, Tokens extends InjectionToken<TContext>[]>(fn: AsyncInjectableFunction<TContext, R, Tokens>): Promise<ResolvedType<R>>;
+  resolve<Token extends keyof TContext>(token: Token): ContextType<TContext, Token>;
+  resolveAsync<Token extends keyof TContext>(token: Token): Promise<ResolvedType<ContextType<TContext, Token>>>;
+  provideValue<Token extends ProvidableToken, R extends NotProvidedYet<TContext, Token, ProvidableType<Token>>>(token: Token, value: R)
     : Injector<TContext & TChildContext<R, Token>>;
-  provideClass<Token extends string, R, Tokens extends InjectionToken<TContext>[]>(token: Token, Class: InjectableClass<TContext, R, Tokens>, scope?: Scope)
+  provideClass<Token extends ProvidableToken, R extends NotProvidedYet<TContext, Token, ProvidableType<Token>>, Tokens extends InjectionToken<TContext>[]>(token: Token, Class: InjectableClass<TContext, R, Tokens>, scope?: Scope)
     : Injector<TContext & TChildContext<R, Token>>;
-  provideFactory<Token extends string, R, Tokens extends InjectionToken<TContext>[]>(token: Token, factory: InjectableFunction<TContext, R, Tokens>, scope?: Scope)
+  provideFactory<Token extends ProvidableToken, R extends NotProvidedYet<TContext, Token, ProvidableType<Token>>, Tokens extends InjectionToken<TContext>[]>(token: Token, factory: InjectableFunction<TContext, R, Tokens>, scope?: Scope)
     : Injector<TContext & TChildContext<R, Token>>;
-  dispose(): Promise<void>;
+  provideAsyncFactory<Token extends ProvidableToken, R extends NotProvidedYet<TContext, Token, AsyncProvidableType<Token>>, Tokens extends InjectionToken<TContext>[]>(token: Token, factory: AsyncInjectableFunction<TContext, PromiseLike<R>, Tokens>, scope?: Scope)
+    : Injector<TContext & TChildContext<Promise<R>, Token>>;
+  provideMulti<Token extends keyof TContext & ProvidableToken, R extends MultiContextType<TContext, Token>, Tokens extends InjectionToken<TContext>[]>(token: Token, Class: InjectableClass<TContext, R, Tokens>, scope?: Scope)
+    : Injector<TContext>;
+  provideMulti<Token extends ProvidableToken, R extends NotProvidedYet<TContext, Token, MultiProvidableType<Token>>, Tokens extends InjectionToken<TContext>[]>(token: Token extends keyof TContext ? never : Token, Class: InjectableClass<TContext, R, Tokens>, scope?: Scope)
+    : Injector<TContext & TChildContext<R[], Token>>;
+  provideAssistedFactory<Token extends ProvidableToken, AssistedToken extends string, AssistedTokens extends [] | AssistedToken[], R extends NotProvidedYet<TContext, Token, unknown>,
+    Tokens extends InjectionToken<TContext & AssistedContext<AssistedTokens[number]>>[], Args extends unknown[]>(token: Token, Class: AssistedClass<TContext, AssistedTokens[number], R, Tokens, Args>, assistedTokens: AssistedTokens)
+    : Injector<TContext & TChildContext<AssistedFactory<Tokens, Args, AssistedTokens, R>, Token>>;
+  provideContextual<Token extends ProvidableToken, R extends NotProvidedYet<TContext, Token, ProvidableType<Token>>>(token: Token, bindings: ContextualBindings<TContext, R>, scope?: Scope)
+    : Injector<TContext & TChildContext<R, Token>>;
+  provideDecorator<Token extends keyof TContext & ProvidableToken>(token: Token, decorator: (value: ContextType<TContext, Token>) => ContextType<TContext, Token>)
+    : Injector<TContext>;
+  intercept<Token extends keyof TContext>(token: Token, interceptor: Interceptor<ContextType<TContext, Token>>): Injector<TContext>;
+  createScope(): Injector<TContext>;
+  createChild(): Injector<TContext>;
+  instrument(instrumentation: Instrumentation): Injector<TContext>;
+  use<TProvided>(module: Module<TContext, TProvided>): Injector<TContext & TProvided>;
+  freeze(): Injector<TContext>;
+  describe(): InjectorGraph;
+  validate(...injectables: Function[]): void;
+  init(): Promise<void>;
+  dispose(options?: DisposeOptions): Promise<void>;
+  release(value: unknown, options?: DisposeOptions): Promise<void>;
+  replace<Token extends keyof TContext & ProvidableToken, Tokens extends InjectionToken<TContext>[]>(token: Token, Class: InjectableClass<TContext, ContextType<TContext, Token>, Tokens>)
+    : Promise<void>;
 }
@@ -0,0 +1,37 @@
+import { ProvidableToken } from './InjectionToken';
+import { Scope } from './Scope';
+
+export type ProviderKind = 'value' | 'class' | 'factory' | 'asyncFactory' | 'multi' | 'decorator' | 'contextual' | 'assistedFactory';
+
+export type DependencyKind = 'required' | 'optional' | 'lazy';
+
+export interface DependencyDescription {
+  readonly token: ProvidableToken;
+  readonly kind: DependencyKind;
+}
+
+export interface ProviderDescription {
+  readonly token: ProvidableToken;
+  readonly kind: ProviderKind;
+  /**
+   * The scope of the provider, or `undefined` for values, as they aren't created by the injector.
+   * Decorators don't have a scope either, as a decorated value lives as long as the value it decorates.
+   * Neither do assisted factories, as they create a new instance every time they are called.
+   */
+  readonly scope: Scope | undefined;
+  /**
+   * The tokens that are injected in the class or factory. Magic tokens are left out.
+   */
+  readonly dependencies: DependencyDescription[];
+  /**
+   * Whether or not the value is currently cached by the provider.
+   */
+  readonly cached: boolean;
+}
+
+export interface InjectorGraph {
+  /**
+   * The providers in the order in which they were provided.
+   */
+  readonly providers: ProviderDescription[];
+}
@@ -0,0 +1,60 @@
+import { ProvidableToken } from './InjectionToken';
+import { ProviderKind } from './InjectorGraph';
+import { Scope } from './Scope';
+
+export interface ProviderEvent {
+  readonly token: ProvidableToken;
+  readonly kind: ProviderKind;
+  /**
+   * The scope of the provider, or `undefined` for values and decorators.
+   */
+  readonly scope: Scope | undefined;
+  /**
+   * The class or function that requested the value, or `undefined` if it is resolved directly.
+   */
+  readonly target: Function | undefined;
+}
+
+export interface InstantiateEvent extends ProviderEvent {
+  /**
+   * The moment the provider started creating the value, in milliseconds.
+   */
+  readonly startTime: number;
+  /**
+   * The time it took to create the value (including its dependencies), in milliseconds.
+   */
+  readonly duration: number;
+}
+
+export interface DisposeEvent extends ProviderEvent {
+  /**
+   * The time it took to dispose the value, in milliseconds.
+   */
+  readonly duration: number;
+  /**
+   * The error, if the value could not be disposed.
+   */
+  readonly error?: unknown;
+}
+
+/**
+ * Hooks that are called for the providers of an instrumented injector. See `injector.instrument()`.
+ */
+export interface Instrumentation {
+  /**
+   * Called when a provider is asked for its value.
+   */
+  onResolve?(event: ProviderEvent): void;
+  /**
+   * Called after a class or factory provider created a value.
+   */
+  onInstantiate?(event: InstantiateEvent): void;
+  /**
+   * Called when a provider returns a value it created before.
+   */
+  onCacheHit?(event: ProviderEvent): void;
+  /**
+   * Called after a value is disposed, or failed to dispose.
+   */
+  onDispose?(event: DisposeEvent): void;
+}
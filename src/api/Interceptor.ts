@@ -0,0 +1,18 @@
+import { ProvidableToken } from './InjectionToken';
+
+export interface InterceptorContext {
+  /**
+   * The token that is intercepted.
+   */
+  readonly token: ProvidableToken;
+  /**
+   * The class or function for which the value is created, or `undefined` if it is resolved directly.
+   * A cached value is created for the class or function that requested it first.
+   */
+  readonly target: Function | undefined;
+}
+
+/**
+ * Wraps a provided value, for example in a `Proxy`. Should return the value to inject instead.
+ */
+export type Interceptor<T> = (value: T, context: InterceptorContext) => T;
@@ -0,0 +1,7 @@
+import { Injector } from './Injector';
+
+/**
+ * A reusable part of the composition of an application. Create one using `createModule` and apply it using `injector.use(module)`.
+ * It can be applied to any injector that provides the `TRequired` context and results in an injector that provides `TProvided`.
+ */
+export type Module<TRequired, TProvided> = (injector: Injector<TRequired>) => Injector<TProvided>;
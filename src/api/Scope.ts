@@ -1,5 +1,10 @@
 
 export enum Scope {
   Transient = 'transient',
-  Singleton = 'singleton'
+  Singleton = 'singleton',
+  Scoped = 'scoped',
+  /**
+   * Like `Transient`, but the injector doesn't keep track of the values, so it won't dispose them. The caller owns them instead.
+   */
+  Untracked = 'untracked'
 }
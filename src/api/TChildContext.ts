@@ -1,3 +1,5 @@
-export type TChildContext<TProvided, CurrentToken extends string> = {
+import { ProvidableToken } from './InjectionToken';
+
+export type TChildContext<TProvided, CurrentToken extends ProvidableToken> = {
   [K in keyof ({ [K in CurrentToken]: TProvided })]: K extends CurrentToken ? TProvided : never;
 };
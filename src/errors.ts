@@ -0,0 +1,139 @@
+import { Exception } from './Exception';
+import { ProvidableToken } from './api/InjectionToken';
+
+function formatPath(path: ProvidableToken[]): string {
+  return path.map(token => String(token)).join(' -> ');
+}
+
+function formatDetails(details: [string, string | undefined][]): string {
+  return details
+    .filter(([, value]) => value !== undefined)
+    .map(([label, value]) => `\n  ${label}: ${value}`)
+    .join('');
+}
+
+/**
+ * Thrown when a token is requested for which no value is provided.
+ */
+export class NoProviderError extends Exception {
+  constructor(readonly token: ProvidableToken, readonly target: Function | undefined, readonly path: ProvidableToken[]) {
+    super(`No provider found for "${String(token)}".${formatDetails([
+      ['Requested by', target && target.name],
+      ['Resolution path', path.length > 1 ? formatPath(path) : undefined]
+    ])}`);
+  }
+}
+
+/**
+ * Thrown when an injector is used after it has been disposed.
+ */
+export class InjectorDisposedError extends Exception {
+  constructor(readonly token: ProvidableToken | undefined, readonly target: Function | undefined, readonly path: ProvidableToken[]) {
+    super(`Injector is already disposed. Please don't use it anymore. ${target ? `Tried to inject "${target.name}".` : `Tried to resolve "${String(token)}".`}${formatDetails([
+      ['Resolution path', path.length > (target ? 0 : 1) ? formatPath(path) : undefined]
+    ])}`);
+  }
+}
+
+/**
+ * Thrown when a token is provided that the injector (or one of its parents) already provides.
+ */
+export class TokenAlreadyProvidedError extends Exception {
+  constructor(readonly token: ProvidableToken) {
+    super(`Token: ${String(token)} is already used on this injector.`);
+  }
+}
+
+/**
+ * Thrown when a class or function itself throws an error while it is being injected.
+ * The original error is available as `cause`.
+ */
+export class InjectionFailedError extends Exception {
+  constructor(readonly target: Function, readonly token: ProvidableToken | undefined, readonly path: ProvidableToken[], readonly cause: Error) {
+    super(`Could not inject "${target.name}".${formatDetails([
+      ['Resolution path', path.length ? formatPath(path) : undefined],
+      ['Cause', cause.message]
+    ])}`);
+  }
+}
+
+/**
+ * Thrown when a `Scope.Scoped` token is requested outside of a scope.
+ */
+export class OutOfScopeError extends Exception {
+  constructor(readonly token: ProvidableToken, readonly path: ProvidableToken[]) {
+    super(`Token "${String(token)}" is provided with Scope.Scoped, so it can only be resolved in a scope. Use "createScope()" to create one.${formatDetails([
+      ['Resolution path', path.length > 1 ? formatPath(path) : undefined]
+    ])}`);
+  }
+}
+
+/**
+ * Thrown when a `Scope.Scoped` token is requested while creating a `Scope.Singleton` value that would outlive the scope.
+ */
+export class ScopeMismatchError extends Exception {
+  constructor(readonly token: ProvidableToken, readonly dependent: ProvidableToken, readonly path: ProvidableToken[]) {
+    super(`Token "${String(token)}" is provided with Scope.Scoped, so it can't be injected into "${String(dependent)}", which is a Scope.Singleton that outlives the scope.${formatDetails([
+      ['Resolution path', formatPath(path)]
+    ])}`);
+  }
+}
+
+/**
+ * Thrown when a token is requested again while its value is still being created.
+ */
+export class CircularDependencyError extends Exception {
+  constructor(readonly path: ProvidableToken[]) {
+    super(`Circular dependency detected: ${formatPath(path)}`);
+  }
+}
+
+/**
+ * A value that could not be disposed, see `DisposeFailedError`.
+ */
+export interface DisposeFailure {
+  readonly token: ProvidableToken;
+  readonly error: unknown;
+}
+
+/**
+ * Thrown by `dispose()` when one or more values could not be disposed. The other values are still disposed.
+ * The failures are available as `failures`, in the order in which the values were disposed.
+ */
+export class DisposeFailedError extends Exception {
+  constructor(readonly failures: DisposeFailure[]) {
+    super(`Could not dispose ${failures.length} value(s).${formatDetails(failures.map(({ token, error }) =>
+      [String(token), error instanceof Error ? error.message : String(error)] as [string, string]))}`);
+  }
+}
+
+/**
+ * The error of a `DisposeFailure` when a value didn't finish disposing within the timeout.
+ */
+export class DisposeTimeoutError extends Exception {
+  constructor(readonly token: ProvidableToken, readonly timeout: number) {
+    super(`Disposing "${String(token)}" timed out after ${timeout} ms.`);
+  }
+}
+
+/**
+ * A token that is injected, but not provided, see `ValidationError`.
+ */
+export interface UnresolvedToken {
+  readonly token: ProvidableToken;
+  /**
+   * The token of the provider that injects the token, or the class or function that was passed to `validate()`.
+   */
+  readonly requestedBy: ProvidableToken | Function;
+}
+
+/**
+ * Thrown by `validate()` when one or more injected tokens are not provided.
+ * The tokens are available as `unresolved`, with the providers first (in the order in which they were provided), followed by the injectables.
+ */
+export class ValidationError extends Exception {
+  constructor(readonly unresolved: UnresolvedToken[]) {
+    super(`Found ${unresolved.length} unresolved token(s).${formatDetails(unresolved.map(({ token, requestedBy }) =>
+      [String(token), `requested by ${typeof requestedBy === 'function' ? requestedBy.name : `"${String(requestedBy)}"`}`] as [string, string]))}`);
+  }
+}
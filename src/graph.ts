@@ -0,0 +1,65 @@
+import { InjectorGraph, ProviderDescription, DependencyKind } from './api/InjectorGraph';
+
+interface Edge {
+  from: number;
+  to: number;
+  kind: DependencyKind;
+}
+
+function label(provider: ProviderDescription) {
+  const details: string[] = [provider.kind];
+  if (provider.scope) {
+    details.push(provider.cached ? `${provider.scope} (cached)` : provider.scope);
+  }
+  return [String(provider.token), details.join(', ')];
+}
+
+function edges(graph: InjectorGraph): Edge[] {
+  const result: Edge[] = [];
+  graph.providers.forEach((provider, from) => {
+    provider.dependencies.forEach(dependency => {
+      // A provider can only depend on providers provided before it. Multi provided tokens have a provider per contribution.
+      graph.providers.slice(0, from).forEach((candidate, to) => {
+        if (candidate.token === dependency.token) {
+          result.push({ from, to, kind: dependency.kind });
+        }
+      });
+    });
+  });
+  return result;
+}
+
+/**
+ * Renders an injector graph (see `injector.describe()`) in the Graphviz DOT language.
+ * Edges point from the dependent to its dependency. Optional and lazy dependencies are dashed.
+ * @param graph The graph to render
+ */
+export function toDot(graph: InjectorGraph): string {
+  const escape = (value: string) => value.replace(/["\\]/g, '\\$&');
+  const lines = ['digraph injector {'];
+  graph.providers.forEach((provider, index) => {
+    lines.push(`  n${index} [label="${label(provider).map(escape).join('\\n')}"];`);
+  });
+  edges(graph).forEach(({ from, to, kind }) => {
+    lines.push(kind === 'required' ? `  n${from} -> n${to};` : `  n${from} -> n${to} [style=dashed, label="${kind}"];`);
+  });
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Renders an injector graph (see `injector.describe()`) as a Mermaid flowchart.
+ * Edges point from the dependent to its dependency. Optional and lazy dependencies are dotted.
+ * @param graph The graph to render
+ */
+export function toMermaid(graph: InjectorGraph): string {
+  const escape = (value: string) => value.replace(/"/g, '#quot;');
+  const lines = ['graph TD'];
+  graph.providers.forEach((provider, index) => {
+    lines.push(`  n${index}["${label(provider).map(escape).join('<br/>')}"]`);
+  });
+  edges(graph).forEach(({ from, to, kind }) => {
+    lines.push(kind === 'required' ? `  n${from} --> n${to}` : `  n${from} -.->|${kind}| n${to}`);
+  });
+  return lines.join('\n');
+}
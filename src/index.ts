@@ -1,9 +1,21 @@
 export * from './api/Injectable';
 export * from './api/CorrespondingType';
 export * from './api/InjectionToken';
+export * from './api/InjectorGraph';
+export * from './api/Interceptor';
+export * from './api/Instrumentation';
+export * from './api/Module';
+export * from './api/ContextualBindings';
+export * from './api/AssistedFactory';
 export * from './api/Injector';
 export * from './api/Scope';
 export * from './api/TChildContext';
 export * from './InjectorImpl';
 export * from './tokens';
+export * from './module';
 export * from './api/Disposable';
+export * from './api/DisposeOptions';
+export * from './api/Initializable';
+export * from './errors';
+export * from './graph';
+export * from './TimingReporter';
@@ -0,0 +1,15 @@
+import { Injector } from './api/Injector';
+import { Module } from './api/Module';
+
+/**
+ * Creates a module that requires the `TRequired` context. The provided context is inferred from the injector that `configure` returns.
+ * The required context is passed as a type argument separately, so the provided context can still be inferred.
+ * @example
+ * ```ts
+ * const dbModule = createModule<{ config: Config }>()(injector => injector.provideClass('db', Db));
+ * const db = rootInjector.provideValue('config', config).use(dbModule).resolve('db');
+ * ```
+ */
+export function createModule<TRequired = {}>() {
+  return <TProvided>(configure: (injector: Injector<TRequired>) => Injector<TProvided>): Module<TRequired, TProvided> => configure;
+}
@@ -0,0 +1,104 @@
+import { InjectorToken, TargetToken, OptionalToken, LazyToken, TokenDescriptor, ProvidableToken, INJECTOR_TOKEN, TARGET_TOKEN } from './api/InjectionToken';
+import { ContextType } from './api/CorrespondingType';
+import { Injector } from './api/Injector';
+import { rootInjector } from './InjectorImpl';
+import { isOptionalToken, isLazyToken } from './utils';
+import { Exception } from './Exception';
+
+type StubToken<T> = T extends OptionalToken<infer Token> ? Token
+  : T extends LazyToken<infer Token> ? Token
+  : T extends InjectorToken | TargetToken ? never
+  : T;
+
+type StubType<T, Arg> = T extends LazyToken<any> ? (Arg extends () => infer R ? R : never) : Arg;
+
+/**
+ * The context of a test injector: each token in `Tokens` maps to the type of the corresponding parameter in `Args`.
+ * Magic tokens are left out, as they are always provided.
+ */
+export type TestContext<Tokens extends TokenDescriptor[], Args extends any[]> = {
+  [Token in StubToken<Tokens[number]>]: {
+    [I in keyof Tokens]: Token extends StubToken<Tokens[I]> ? StubType<Tokens[I], I extends keyof Args ? Args[I] : never> : never;
+  }[number];
+};
+
+/**
+ * Provides stubs for all dependencies of a class under test.
+ * Create one using `createTestInjector`.
+ */
+export class TestInjector<TContext, R> {
+
+  /**
+   * The injector that provides the stubs and overrides.
+   */
+  public readonly injector: Injector<TContext>;
+
+  constructor(private readonly Class: Function,
+              private readonly values: ReadonlyMap<ProvidableToken, unknown>) {
+    let injector: Injector<any> = rootInjector;
+    values.forEach((value, token) => injector = injector.provideValue(token, value));
+    this.injector = injector;
+  }
+
+  /**
+   * Creates a new test injector that provides `value` for `token`, instead of a stub.
+   * @param token The token to override
+   * @param value The real or fake implementation to provide
+   */
+  public override<Token extends keyof TContext>(token: Token, value: ContextType<TContext, Token>): TestInjector<TContext, R> {
+    if (!this.values.has(token as ProvidableToken)) {
+      throw new Exception(`Cannot override "${String(token)}", as it isn't injected in ${this.Class.name}.`);
+    }
+    return new TestInjector(this.Class, new Map(this.values).set(token as ProvidableToken, value));
+  }
+
+  /**
+   * Resolves the stub or override that is provided for `token`.
+   */
+  public resolve<Token extends keyof TContext>(token: Token): ContextType<TContext, Token> {
+    return this.injector.resolve(token);
+  }
+
+  /**
+   * Creates a new instance of the class under test.
+   */
+  public create(): R {
+    return this.injector.injectClass(this.Class as any);
+  }
+}
+
+/**
+ * Creates a test injector for a class. It reads the `inject` property of the class and provides a stub for each token.
+ * A stub can be called and every property of a stub is a stub as well, but they don't do anything. Use `override` to provide a real or fake implementation instead.
+ * @example
+ * ```ts
+ * const testInjector = createTestInjector(HttpClient).override('logger', fakeLogger);
+ * const httpClient = testInjector.create();
+ * ```
+ * @param Class The class under test
+ */
+export function createTestInjector<R, Args extends any[], Tokens extends TokenDescriptor[]>(Class: (new (...args: Args) => R) & { readonly inject: Tokens })
+  : TestInjector<TestContext<Tokens, Args>, R> {
+  const values = new Map<ProvidableToken, unknown>();
+  Class.inject
+    .filter(token => token !== INJECTOR_TOKEN && token !== TARGET_TOKEN)
+    .map(token => isOptionalToken(token) || isLazyToken(token) ? token.token : token)
+    .forEach(token => values.set(token, createStub()));
+  return new TestInjector(Class, values);
+}
+
+function createStub(): any {
+  const members = new Map<PropertyKey, unknown>();
+  return new Proxy(function stub() { }, {
+    get(_target, property) {
+      // Don't pretend to be a promise or to have well known symbols
+      if (property === 'then' || typeof property === 'symbol') {
+        return undefined;
+      }
+      if (!members.has(property)) {
+        members.set(property, createStub());
+      }
+      return members.get(property);
+    }
+  });
+}
@@ -1,3 +1,5 @@
+import { TypedToken, ProvidableToken, OptionalToken, LazyToken, LaterToken, TokenDescriptor } from './api/InjectionToken';
+
 /**
  * Helper method to create string literal tuple type.
  * @example
@@ -7,6 +9,96 @@
  * ```
  * @param tokens The tokens as args
  */
-export function tokens<TS extends string[]>(...tokens: TS): TS {
+export function tokens<TS extends TokenDescriptor[]>(...tokens: TS): TS {
   return tokens;
 }
+
+/**
+ * Creates a unique token for a value of type `T`.
+ * It can be used instead of a string literal, so tokens of unrelated libraries can never collide.
+ * The type is passed to the first call and the description to the second, so the type of the token captures both.
+ * Tokens with a different description can't be mixed up at compile time, even when they have the same type.
+ * @example
+ * ```ts
+ * const LOGGER = createToken<Logger>()('logger');
+ * const loggerInjector = rootInjector.provideValue(LOGGER, logger);
+ * const inject = tokens(LOGGER);
+ * ```
+ */
+export function createToken<T>(): <Description extends string>(description: Description) => TypedToken<T, Description> {
+  return <Description extends string>(description: Description) => Symbol(description) as TypedToken<T, Description>;
+}
+
+/**
+ * Marks a token as optional. If no value is provided for the token, `undefined` is injected instead.
+ * @example
+ * ```ts
+ * class Foo {
+ *   constructor(metrics: Metrics | undefined) { }
+ *   static inject = tokens(optional('metrics'));
+ * }
+ * ```
+ * @param token The token to inject when it is provided
+ */
+export function optional<Token extends ProvidableToken>(token: Token): OptionalToken<Token> {
+  return { kind: 'optional', token };
+}
+
+/**
+ * Marks a token as lazy. Instead of the value, a function is injected that resolves the value when it is called.
+ * The value is not created until the function is called for the first time.
+ * @example
+ * ```ts
+ * class Foo {
+ *   constructor(createBar: () => Bar) { }
+ *   static inject = tokens(lazy('bar'));
+ * }
+ * ```
+ * @param token The token to resolve lazily
+ */
+export function lazy<Token extends ProvidableToken>(token: Token): LazyToken<Token> {
+  return { kind: 'lazy', token };
+}
+
+/**
+ * Marks a token as lazy that is provided after the class or function that injects it, for example to let two services reference each other.
+ * The injector that injects it doesn't know the token yet, so the type of the value is passed to the first call and the token to the second.
+ * The function resolves the token from the injector on which the resolution was started.
+ * @example
+ * ```ts
+ * class Foo {
+ *   constructor(getBar: () => Bar) { }
+ *   static inject = tokens(lazyLater<Bar>()('bar'));
+ * }
+ * class Bar {
+ *   constructor(foo: Foo) { }
+ *   static inject = tokens('foo');
+ * }
+ * rootInjector.provideClass('foo', Foo).provideClass('bar', Bar).resolve('bar');
+ * ```
+ */
+export function lazyLater<T>(): <Token extends ProvidableToken>(token: Token) => LaterToken<Token, T> {
+  return <Token extends ProvidableToken>(token: Token) => lazy(token) as LaterToken<Token, T>;
+}
+
+/**
+ * Declares the tokens to inject in a class or function, without the need for `static inject = tokens(...)`.
+ * It can be used as a class decorator or called as a function. It doesn't depend on `reflect-metadata`.
+ * When used as a decorator, also declare the `inject` property, so the compiler can check the constructor parameters against the tokens.
+ * @example
+ * ```ts
+ * @injectable('logger', 'http')
+ * class Foo {
+ *   declare public static inject: ['logger', 'http'];
+ *   constructor(logger: Logger, http: HttpClient) { }
+ * }
+ * const createBar = injectable('logger')((logger: Logger) => new Bar(logger));
+ * ```
+ * @param tokens The tokens to inject, in the order of the parameters
+ */
+export function injectable<Tokens extends TokenDescriptor[]>(...tokens: Tokens) {
+  return <T extends Function & { readonly inject?: Tokens }>(target: T): T & { readonly inject: Tokens } => {
+    (target as { inject?: Tokens }).inject = tokens;
+    return target as T & { readonly inject: Tokens };
+  };
+}
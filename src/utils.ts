@@ -1,5 +1,19 @@
 import { Disposable } from './api/Disposable';
+import { Initializable } from './api/Initializable';
+import { OptionalToken, LazyToken, ProvidableToken } from './api/InjectionToken';
 
 export function isDisposable(maybeDisposable: any): maybeDisposable is Disposable {
   return maybeDisposable && maybeDisposable.dispose && typeof maybeDisposable.dispose === 'function';
 }
+
+export function isInitializable(maybeInitializable: any): maybeInitializable is Initializable {
+  return maybeInitializable && typeof maybeInitializable.onInit === 'function';
+}
+
+export function isOptionalToken(maybeOptionalToken: unknown): maybeOptionalToken is OptionalToken<ProvidableToken> {
+  return typeof maybeOptionalToken === 'object' && (maybeOptionalToken as OptionalToken<ProvidableToken>).kind === 'optional';
+}
+
+export function isLazyToken(maybeLazyToken: unknown): maybeLazyToken is LazyToken<ProvidableToken> {
+  return typeof maybeLazyToken === 'object' && (maybeLazyToken as LazyToken<ProvidableToken>).kind === 'lazy';
+}
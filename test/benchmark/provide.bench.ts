@@ -0,0 +1,34 @@
+import { expect } from 'chai';
+import { performance } from 'perf_hooks';
+import { rootInjector } from '../../src/InjectorImpl';
+import { Injector } from '../../src/api/Injector';
+
+const ITERATIONS = 10;
+
+/**
+ * Measures how long it takes to provide a value per token, on top of each other.
+ */
+function measureChain(providers: number): number {
+  const provideAll = () => {
+    let injector: Injector<any> = rootInjector;
+    for (let i = 0; i < providers; i++) {
+      injector = injector.provideValue(`service${i}`, i);
+    }
+  };
+  provideAll(); // warm up
+  const start = performance.now();
+  for (let i = 0; i < ITERATIONS; i++) {
+    provideAll();
+  }
+  return (performance.now() - start) / ITERATIONS;
+}
+
+describe('provide', () => {
+  it('should take linear time to build a chain of providers', () => {
+    const small = measureChain(300);
+    const large = measureChain(3000);
+    console.log(`      provide 300 tokens: ${small.toFixed(3)} ms, provide 3000 tokens: ${large.toFixed(3)} ms (${(large / small).toFixed(1)}x slower)`);
+    // Quadratic time would make it about 100 times slower
+    expect(large / small).lessThan(30);
+  });
+});
@@ -0,0 +1,11 @@
+import { expect } from 'chai';
+
+export async function rejection(promise: PromiseLike<unknown>): Promise<any> {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  expect.fail('Expected promise to be rejected, but it was resolved');
+  throw new Error();
+}
@@ -24,6 +24,7 @@ describe('typed-inject', () => {
 let program: ts.Program | undefined;
 function findActualError(fileName: string) {
   program = ts.createProgram([fileName], {
+    experimentalDecorators: true,
     module: ts.ModuleKind.ES2015,
     strict: true,
     target: ts.ScriptTarget.ESNext,
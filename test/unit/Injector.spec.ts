@@ -1,13 +1,16 @@
 import { expect } from 'chai';
 import { Injector } from '../../src/api/Injector';
-import { tokens } from '../../src/tokens';
+import { tokens, createToken, optional, lazy, lazyLater, injectable } from '../../src/tokens';
 import { rootInjector } from '../../src/InjectorImpl';
 import { TARGET_TOKEN, INJECTOR_TOKEN } from '../../src/api/InjectionToken';
-import { Exception } from '../../src/Exception';
+import { CircularDependencyError, NoProviderError, InjectionFailedError, OutOfScopeError, ScopeMismatchError, InjectorDisposedError, TokenAlreadyProvidedError, DisposeFailedError, DisposeTimeoutError, ValidationError } from '../../src/errors';
 import { Scope } from '../../src/api/Scope';
 import * as sinon from 'sinon';
+import { performance } from 'perf_hooks';
 import { Disposable } from '../../src/api/Disposable';
+import { ContextualBindings } from '../../src/api/ContextualBindings';
 import { Task, tick } from '../helpers/Task';
+import { rejection } from '../helpers/rejection';
 
 describe('InjectorImpl', () => {
   describe('AbstractInjector', () => {
@@ -111,8 +114,8 @@ describe('InjectorImpl', () => {
         public static inject = tokens('foo');
       }
       expect(() => rootInjector.injectClass(FooInjectable as any)).throws(
-        Exception,
-        'Could not inject "FooInjectable". Inner error: No provider found for "foo"!'
+        NoProviderError,
+        'No provider found for "foo".\n  Requested by: FooInjectable'
       );
     });
 
@@ -122,11 +125,60 @@ describe('InjectorImpl', () => {
       }
       foo.inject = ['bar'];
       expect(() => rootInjector.injectFunction(foo as any)).throws(
-        Exception,
-        'Could not inject "foo". Inner error: No provider found for "bar"!'
+        NoProviderError,
+        'No provider found for "bar".\n  Requested by: foo'
       );
     });
 
+    it('should report the resolution path of a missing token', () => {
+      class Baz {
+        constructor(public readonly qux: string) {}
+        public static inject = tokens('qux');
+      }
+      class Bar {
+        constructor(public readonly baz: Baz) {}
+        public static inject = tokens('baz');
+      }
+      const sut = rootInjector
+        .provideClass('baz', Baz as any as new () => Baz)
+        .provideClass('bar', Bar);
+      let actualError: NoProviderError | undefined;
+      try {
+        sut.resolve('bar');
+      } catch (error) {
+        actualError = error;
+      }
+      expect(actualError).instanceOf(NoProviderError);
+      expect(actualError!.token).eq('qux');
+      expect(actualError!.target).eq(Baz);
+      expect(actualError!.path).deep.eq(['bar', 'baz', 'qux']);
+    });
+
+    it('should wrap errors thrown by the injectable only once', () => {
+      const expectedCause = new Error('expected error');
+      function baz(): string {
+        throw expectedCause;
+      }
+      class Bar {
+        constructor(public readonly baz: string) {}
+        public static inject = tokens('baz');
+      }
+      const sut = rootInjector
+        .provideFactory('baz', baz)
+        .provideClass('bar', Bar);
+      let actualError: InjectionFailedError | undefined;
+      try {
+        sut.resolve('bar');
+      } catch (error) {
+        actualError = error;
+      }
+      expect(actualError).instanceOf(InjectionFailedError);
+      expect(actualError!.cause).eq(expectedCause);
+      expect(actualError!.target).eq(baz);
+      expect(actualError!.token).eq('baz');
+      expect(actualError!.path).deep.eq(['bar', 'baz']);
+    });
+
     it('should be able to provide an Injector for a partial context', () => {
       class Foo {
         constructor(public injector: Injector<{ bar: number }>) {}
@@ -140,6 +192,175 @@ describe('InjectorImpl', () => {
     });
   });
 
+  describe('optional tokens', () => {
+    interface Metrics {
+      report(): void;
+    }
+
+    it('should inject undefined when the token is not provided', () => {
+      class Foo {
+        constructor(public readonly metrics: Metrics | undefined, public readonly bar: string) {}
+        public static inject = tokens(optional('metrics'), 'bar');
+      }
+      const actual = rootInjector.provideValue('bar', 'baz').injectClass(Foo);
+      expect(actual.metrics).undefined;
+      expect(actual.bar).eq('baz');
+    });
+
+    it('should inject the value when the token is provided', () => {
+      const expectedMetrics: Metrics = { report() {} };
+      function foo(metrics: Metrics | undefined) {
+        return metrics;
+      }
+      foo.inject = tokens(optional('metrics'));
+      const actual = rootInjector.provideValue('metrics', expectedMetrics).injectFunction(foo);
+      expect(actual).eq(expectedMetrics);
+    });
+
+    it('should support typed tokens', () => {
+      const METRICS = createToken<Metrics>()('metrics');
+      const expectedMetrics: Metrics = { report() {} };
+      class Foo {
+        constructor(public readonly metrics: Metrics | undefined) {}
+        public static inject = tokens(optional(METRICS));
+      }
+      expect(rootInjector.injectClass(Foo).metrics).undefined;
+      expect(rootInjector.provideValue(METRICS, expectedMetrics).injectClass(Foo).metrics).eq(expectedMetrics);
+    });
+
+    it('should not swallow errors of a provided optional token', () => {
+      class Foo {
+        constructor(public readonly metrics: Metrics | undefined) {}
+        public static inject = tokens(optional('metrics'));
+      }
+      const sut = rootInjector.provideFactory('metrics', function metricsFactory(): Metrics {
+        throw new Error('expected error');
+      });
+      expect(() => sut.injectClass(Foo)).throws(InjectionFailedError, 'Could not inject "metricsFactory".\n  Resolution path: metrics\n  Cause: expected error');
+    });
+  });
+
+  describe('lazy tokens', () => {
+    class Bar {
+      public static instances = 0;
+      constructor() {
+        Bar.instances++;
+      }
+    }
+    class Foo {
+      constructor(public readonly createBar: () => Bar) {}
+      public static inject = tokens(lazy('bar'));
+    }
+
+    beforeEach(() => {
+      Bar.instances = 0;
+    });
+
+    it('should not resolve the token before the function is called', () => {
+      const foo = rootInjector.provideClass('bar', Bar).injectClass(Foo);
+      expect(Bar.instances).eq(0);
+      expect(foo.createBar()).instanceOf(Bar);
+      expect(Bar.instances).eq(1);
+    });
+
+    it('should use the cached value of a singleton', () => {
+      const foo = rootInjector.provideClass('bar', Bar).injectClass(Foo);
+      expect(foo.createBar()).eq(foo.createBar());
+      expect(Bar.instances).eq(1);
+    });
+
+    it('should create a new value for each call of a transient', () => {
+      const foo = rootInjector.provideClass('bar', Bar, Scope.Transient).injectClass(Foo);
+      expect(foo.createBar()).not.eq(foo.createBar());
+      expect(Bar.instances).eq(2);
+    });
+
+    it('should provide the target', () => {
+      function barFactory(target: Function | undefined) {
+        return target;
+      }
+      barFactory.inject = tokens(TARGET_TOKEN);
+      function foo(createBar: () => Function | undefined) {
+        return createBar;
+      }
+      foo.inject = tokens(lazy('bar'));
+      const createBar = rootInjector.provideFactory('bar', barFactory).injectFunction(foo);
+      expect(createBar()).eq(foo);
+    });
+
+    it('should throw when called after the injector is disposed', async () => {
+      const sut = rootInjector.provideClass('bar', Bar);
+      const foo = sut.injectClass(Foo);
+      await sut.dispose();
+      expect(() => foo.createBar()).throws('Injector is already disposed. Please don\'t use it anymore. Tried to resolve "bar".');
+    });
+
+    it('should name the resolution path when called after the injector is disposed', async () => {
+      const sut = rootInjector.provideClass('bar', Bar);
+      const foo = sut.injectClass(Foo);
+      await sut.dispose();
+      let actualError: InjectorDisposedError | undefined;
+      try {
+        rootInjector.provideFactory('baz', () => foo.createBar()).resolve('baz');
+      } catch (error) {
+        actualError = error;
+      }
+      expect(actualError).instanceOf(InjectorDisposedError);
+      expect(actualError!.path).deep.eq(['baz', 'bar']);
+    });
+
+    describe('provided later', () => {
+      class A {
+        constructor(public readonly getB: () => B) {}
+        public static inject = tokens(lazyLater<B>()('b'));
+      }
+      class B {
+        constructor(public readonly a: A) {}
+        public static inject = tokens('a');
+      }
+
+      it('should let two services reference each other', () => {
+        const b = rootInjector
+          .provideClass('a', A)
+          .createChild()
+          .provideClass('b', B)
+          .resolve('b');
+        expect(b.a.getB()).eq(b);
+      });
+
+      it('should resolve the token from the injector that started resolving', () => {
+        const injector = rootInjector
+          .provideClass('a', A, Scope.Transient)
+          .provideClass('b', B, Scope.Transient);
+        const a = injector.injectClass(B).a;
+        expect(a.getB()).instanceOf(B);
+        expect(injector.resolve('a').getB()).instanceOf(B);
+      });
+
+      it('should throw a NoProviderError when the injector that started resolving does not provide the token', () => {
+        const a = rootInjector.provideClass('a', A).resolve('a');
+        expect(() => a.getB()).throws(NoProviderError, 'No provider found for "b".');
+      });
+
+      it('should not resolve the token from an injector that started resolving in another chain', () => {
+        const otherInjector = rootInjector.provideValue('other', true).provideClass('a', A, Scope.Transient);
+        function createA() {
+          return otherInjector.resolve('a');
+        }
+        const a = rootInjector
+          .provideFactory('otherA', createA)
+          .provideClass('b', B as any)
+          .resolve('otherA');
+        expect(() => a.getB()).throws(NoProviderError, 'No provider found for "b".');
+      });
+
+      it('should be valid when the token is provided later', () => {
+        const injector = rootInjector.provideClass('a', A).provideClass('b', B);
+        expect(() => injector.validate()).not.throws();
+      });
+    });
+  });
+
   describe('ChildInjector', () => {
     it('should cache the value if scope = Singleton', () => {
       // Arrange
@@ -187,6 +408,416 @@ describe('InjectorImpl', () => {
       expect(first.count).eq(0);
       expect(second.count).eq(1);
     });
+
+    it('should only know the tokens of its own branch', () => {
+      class Plugin { }
+      const appInjector = rootInjector.provideValue('answer', 42).provideMulti('plugins', Plugin);
+      const first = appInjector.provideValue('first', 1);
+      const second = appInjector.createChild().provideValue('second', 2).provideMulti('plugins', Plugin);
+      expect(() => second.provideValue('answer', 0 as any)).throws('Token: answer is already used on this injector.');
+      expect(() => first.provideValue('second', 2).provideValue('first', 3 as any)).throws('Token: first is already used on this injector.');
+      expect(appInjector.provideValue('first', 3).resolve('first')).eq(3);
+      expect(second.provideMulti('plugins', Plugin).resolve('plugins')).lengthOf(3);
+      expect(second.provideValue('first', 1).resolve('first')).eq(1);
+    });
+  });
+
+  describe('circular dependencies', () => {
+    it('should throw a CircularDependencyError when a factory resolves its own token', () => {
+      let sut: Injector<{ answer: number }>;
+      function answer(): number {
+        return sut.resolve('answer');
+      }
+      sut = rootInjector.provideFactory('answer', answer);
+      expect(() => sut.resolve('answer')).throws(CircularDependencyError, 'Circular dependency detected: answer -> answer');
+    });
+
+    it('should name the full cycle', () => {
+      let sut: Injector<{ a: string; b: string; c: string }>;
+      function a(): string {
+        return sut.resolve('c');
+      }
+      function b(aValue: string) {
+        return aValue;
+      }
+      b.inject = tokens('a');
+      function c(bValue: string) {
+        return bValue;
+      }
+      c.inject = tokens('b');
+      sut = rootInjector
+        .provideValue('d', 'd')
+        .provideFactory('a', a)
+        .provideFactory('b', b)
+        .provideFactory('c', c);
+      let actualError: CircularDependencyError | undefined;
+      try {
+        sut.resolve('c');
+      } catch (error) {
+        actualError = error;
+      }
+      expect(actualError).instanceOf(CircularDependencyError);
+      expect(actualError!.path).deep.eq(['c', 'b', 'a', 'c']);
+      expect(actualError!.message).eq('Circular dependency detected: c -> b -> a -> c');
+    });
+
+    it('should allow resolving the same token again after a failure', () => {
+      let shouldFail = true;
+      function answer() {
+        if (shouldFail) {
+          throw new Error('expected error');
+        }
+        return 42;
+      }
+      const sut = rootInjector.provideFactory('answer', answer);
+      expect(() => sut.resolve('answer')).throws('expected error');
+      shouldFail = false;
+      expect(sut.resolve('answer')).eq(42);
+    });
+  });
+
+  describe('createScope', () => {
+    class RequestContext {
+      public dispose = sinon.stub();
+    }
+    class Database {
+      public dispose = sinon.stub();
+    }
+    class Repository {
+      constructor(public readonly context: RequestContext, public readonly db: Database) {}
+      public static inject = tokens('context', 'db');
+    }
+    function createAppInjector() {
+      return rootInjector
+        .provideClass('db', Database)
+        .provideClass('context', RequestContext, Scope.Scoped)
+        .provideClass('repository', Repository, Scope.Transient);
+    }
+
+    it('should cache scoped values once per scope', () => {
+      const scope = createAppInjector().createScope();
+      const first = scope.resolve('repository');
+      const second = scope.resolve('repository');
+      expect(first).not.eq(second);
+      expect(first.context).eq(second.context);
+    });
+
+    it('should create new scoped values for each scope', () => {
+      const appInjector = createAppInjector();
+      const first = appInjector.createScope().resolve('repository');
+      const second = appInjector.createScope().resolve('repository');
+      expect(first.context).not.eq(second.context);
+      expect(first.db).eq(second.db);
+    });
+
+    it('should use the scope when injecting', () => {
+      function getContext(context: RequestContext) {
+        return context;
+      }
+      getContext.inject = tokens('context');
+      const scope = createAppInjector().createScope();
+      expect(scope.injectClass(Repository).context).eq(scope.resolve('context'));
+      expect(scope.injectFunction(getContext)).eq(scope.resolve('context'));
+    });
+
+    it('should use the scope for lazy tokens', () => {
+      class Foo {
+        constructor(public readonly getContext: () => RequestContext) {}
+        public static inject = tokens(lazy('context'));
+      }
+      const scope = createAppInjector().createScope();
+      const foo = scope.injectClass(Foo);
+      expect(foo.getContext()).eq(scope.resolve('context'));
+    });
+
+    it('should use the innermost scope', () => {
+      const scope = createAppInjector().createScope();
+      const innerScope = scope.createScope();
+      expect(innerScope.resolve('context')).not.eq(scope.resolve('context'));
+    });
+
+    it('should use a scope that is created while another scope is resolving', () => {
+      function createContext(injector: Injector<{ context: RequestContext }>) {
+        return injector.createScope().resolve('context');
+      }
+      createContext.inject = tokens(INJECTOR_TOKEN);
+      const appInjector = createAppInjector();
+      const scope = appInjector.provideFactory('otherContext', createContext, Scope.Transient).createScope();
+      const otherContext = scope.resolve('otherContext');
+      expect(otherContext).not.eq(scope.resolve('context'));
+      expect(scope.resolve('otherContext')).not.eq(otherContext);
+    });
+
+    it('should use the scope for injectors provided on top of it', () => {
+      const scope = createAppInjector().createScope();
+      const sut = scope.provideClass('otherRepository', Repository);
+      expect(sut.resolve('otherRepository').context).eq(scope.resolve('context'));
+    });
+
+    it('should throw an OutOfScopeError when resolving a scoped value outside of a scope', () => {
+      const appInjector = createAppInjector();
+      expect(() => appInjector.resolve('context')).throws(OutOfScopeError, 'Token "context" is provided with Scope.Scoped, so it can only be resolved in a scope.');
+      expect(() => appInjector.resolve('repository')).throws(OutOfScopeError, 'Resolution path: repository -> context');
+    });
+
+    it('should throw a ScopeMismatchError when a singleton depends on a scoped value', () => {
+      const scope = createAppInjector().provideClass('singletonRepository', Repository).createScope();
+      expect(() => scope.resolve('singletonRepository')).throws(ScopeMismatchError, 'Token "context" is provided with Scope.Scoped, so it can\'t be injected into "singletonRepository"');
+    });
+
+    it('should throw a ScopeMismatchError when a singleton depends on a scoped value via a transient value', () => {
+      class Service {
+        constructor(public readonly repository: Repository) {}
+        public static inject = tokens('repository');
+      }
+      const scope = createAppInjector().provideClass('service', Service).createScope();
+      expect(() => scope.resolve('service')).throws(ScopeMismatchError, 'Resolution path: service -> repository -> context');
+    });
+
+    it('should resolve a scoped token that is provided on top of the scope', () => {
+      const scope = rootInjector.createScope();
+      const sut = scope.provideClass('context', RequestContext, Scope.Scoped);
+      expect(sut.resolve('context')).eq(sut.resolve('context'));
+      expect(sut.createScope().resolve('context')).not.eq(sut.resolve('context'));
+    });
+
+    it('should find the scope through the other kinds of injectors', () => {
+      const sut = rootInjector
+        .provideValue('answer', 42)
+        .createScope()
+        .createChild()
+        .instrument({})
+        .intercept('answer', answer => answer)
+        .freeze()
+        .provideClass('context', RequestContext, Scope.Scoped);
+      expect(sut.resolve('context')).eq(sut.resolve('context'));
+    });
+
+    it('should keep using the scope for lazy tokens of injected values', () => {
+      class Foo {
+        constructor(public readonly getContext: () => RequestContext) {}
+        public static inject = tokens(lazy('context'));
+      }
+      const scope = createAppInjector().provideClass('foo', Foo, Scope.Transient).createScope();
+      const foo = scope.resolve('foo');
+      expect(foo.getContext()).eq(scope.resolve('context'));
+    });
+
+    it('should throw when a lazy scoped token is resolved after its scope is disposed', async () => {
+      class Foo {
+        constructor(public readonly getContext: () => RequestContext) {}
+        public static inject = tokens(lazy('context'));
+      }
+      const scope = createAppInjector().provideClass('foo', Foo, Scope.Transient).createScope();
+      const foo = scope.resolve('foo');
+      await scope.dispose();
+      expect(() => foo.getContext()).throws(InjectorDisposedError);
+    });
+
+    it('should dispose scoped values when the scope is disposed', async () => {
+      const appInjector = createAppInjector();
+      const scope = appInjector.createScope();
+      const repository = scope.resolve('repository');
+      await scope.dispose();
+      expect(repository.context.dispose).called;
+      expect(repository.db.dispose).not.called;
+      expect(appInjector.resolve('db')).eq(repository.db);
+    });
+
+    it('should dispose resolved async scoped values when the scope is disposed', async () => {
+      const db = new Database();
+      const scope = rootInjector.provideAsyncFactory('db', () => Promise.resolve(db), Scope.Scoped).createScope();
+      await scope.resolveAsync('db');
+      await scope.dispose();
+      expect(db.dispose).called;
+    });
+
+    it('should not dispose scoped values twice', async () => {
+      const scope = createAppInjector().createScope();
+      const context = scope.resolve('context');
+      await scope.dispose();
+      await scope.dispose();
+      expect(context.dispose).calledOnce;
+    });
+
+    it('should throw after the scope is disposed', async () => {
+      const scope = createAppInjector().createScope();
+      await scope.dispose();
+      expect(() => scope.resolve('context')).throws('Injector is already disposed. Please don\'t use it anymore. Tried to resolve "context".');
+    });
+
+    it('should restore the previous scope when resolving fails', () => {
+      const scope = rootInjector
+        .provideFactory('fail', function fail(): string { throw new Error('expected error'); })
+        .provideClass('context', RequestContext, Scope.Scoped)
+        .createScope();
+      expect(() => scope.resolve('fail')).throws('expected error');
+      expect(() => rootInjector.provideClass('context', RequestContext, Scope.Scoped).resolve('context')).throws(OutOfScopeError);
+    });
+  });
+
+  describe('createChild', () => {
+    class Database {
+      public dispose = sinon.stub();
+    }
+    class RequestHandler {
+      public dispose = sinon.stub();
+      constructor(public readonly db: Database) {}
+      public static inject = tokens('db');
+    }
+
+    it('should resolve the tokens of its parent', () => {
+      const appInjector = rootInjector.provideClass('db', Database);
+      const branch = appInjector.createChild().provideClass('handler', RequestHandler);
+      expect(branch.resolve('handler').db).eq(appInjector.resolve('db'));
+    });
+
+    it('should only dispose the values provided in the branch', async () => {
+      const appInjector = rootInjector.provideClass('db', Database);
+      const handler = appInjector.createChild().provideClass('handler', RequestHandler);
+      const { db } = handler.resolve('handler');
+      await handler.dispose();
+      expect(handler.resolve.bind(handler, 'handler')).throws(InjectorDisposedError);
+      expect(handler.resolve.bind(handler, 'db')).throws(InjectorDisposedError);
+      expect(db.dispose).not.called;
+      expect(appInjector.resolve('db')).eq(db);
+    });
+
+    it('should wait until the values of the branch are disposed', async () => {
+      const task = new Task();
+      const handler = new RequestHandler(new Database());
+      handler.dispose.returns(task.promise);
+      const branch = rootInjector.provideClass('db', Database).createChild().provideFactory('handler', () => handler);
+      branch.resolve('handler');
+      let disposed = false;
+      const onDisposed = branch.dispose().then(() => disposed = true);
+      await tick();
+      expect(disposed).false;
+      task.resolve();
+      await onDisposed;
+      expect(disposed).true;
+    });
+
+    it('should let the parent create a new branch after a branch is disposed', async () => {
+      const appInjector = rootInjector.provideClass('db', Database);
+      const first = appInjector.createChild().provideClass('handler', RequestHandler);
+      const firstHandler = first.resolve('handler');
+      await first.dispose();
+      const second = appInjector.createChild().provideClass('handler', RequestHandler);
+      const secondHandler = second.resolve('handler');
+      expect(firstHandler.dispose).calledOnce;
+      expect(secondHandler).not.eq(firstHandler);
+      expect(secondHandler.db).eq(firstHandler.db);
+    });
+
+    it('should dispose a branch only once', async () => {
+      const branch = rootInjector.provideClass('db', Database).createChild().provideClass('handler', RequestHandler);
+      const handler = branch.resolve('handler');
+      await branch.dispose();
+      await branch.dispose();
+      expect(handler.dispose).calledOnce;
+    });
+
+    it('should still dispose the branch when the parent is disposed', async () => {
+      const appInjector = rootInjector.provideClass('db', Database);
+      const branch = appInjector.createChild().provideClass('handler', RequestHandler);
+      const handler = branch.resolve('handler');
+      await appInjector.dispose();
+      expect(handler.db.dispose).called;
+      expect(handler.dispose).not.called;
+    });
+
+    it('should be part of a frozen branch', async () => {
+      const appInjector = rootInjector.provideClass('db', Database);
+      const branch = appInjector.createChild().provideClass('handler', RequestHandler).freeze();
+      const handler = branch.resolve('handler');
+      await branch.dispose();
+      expect(handler.dispose).called;
+      expect(handler.db.dispose).not.called;
+    });
+
+    it('should dispose the transient values that its parent creates for the branch', async () => {
+      const appInjector = rootInjector.provideClass('db', Database).provideClass('handler', RequestHandler, Scope.Transient);
+      const branches = [appInjector.createChild(), appInjector.createChild(), appInjector.createChild()];
+      const handlers = branches.map(branch => branch.resolve('handler'));
+      await branches[0].dispose();
+      expect(handlers[0].dispose).called;
+      expect(handlers[1].dispose).not.called;
+      expect(handlers[2].dispose).not.called;
+      expect(handlers[0].db.dispose).not.called;
+      await branches[1].dispose();
+      expect(handlers[1].dispose).called;
+      expect(handlers[2].dispose).not.called;
+    });
+
+    it('should dispose the transient values of its parent with the nearest branch', async () => {
+      const appInjector = rootInjector.provideClass('db', Database).provideClass('handler', RequestHandler, Scope.Transient);
+      const outer = appInjector.createChild();
+      const inner = outer.createChild().freeze();
+      const handler = inner.resolve('handler');
+      await inner.dispose();
+      expect(handler.dispose).called;
+      expect(outer.resolve('handler').dispose).not.called;
+    });
+
+    it('should not dispose a transient value that a singleton of its parent depends on', async () => {
+      class Service {
+        constructor(public readonly handler: RequestHandler) {}
+        public static inject = tokens('handler');
+      }
+      const appInjector = rootInjector
+        .provideClass('db', Database)
+        .provideClass('handler', RequestHandler, Scope.Transient)
+        .provideClass('service', Service);
+      const branch = appInjector.createChild();
+      const { handler } = branch.resolve('service');
+      await branch.dispose();
+      expect(handler.dispose).not.called;
+      await appInjector.dispose();
+      expect(handler.dispose).called;
+    });
+
+    it('should release the transient values of its parent', async () => {
+      const appInjector = rootInjector.provideClass('db', Database).provideClass('handler', RequestHandler, Scope.Transient);
+      const branch = appInjector.createChild();
+      const handlers = [branch.resolve('handler'), appInjector.resolve('handler')];
+      await branch.release(handlers[0]);
+      await branch.release(handlers[1]);
+      expect(handlers[0].dispose).calledOnce;
+      expect(handlers[1].dispose).calledOnce;
+      await branch.dispose();
+      expect(handlers[0].dispose).calledOnce;
+    });
+
+    it('should dispose the transient values of its parent once when it is disposed via more injectors', async () => {
+      const branch = rootInjector.provideClass('db', Database).provideClass('handler', RequestHandler, Scope.Transient).createChild();
+      const first = branch.provideValue('first', 1);
+      const second = branch.provideValue('second', 2);
+      const handler = first.resolve('handler');
+      await first.dispose();
+      await second.dispose();
+      expect(handler.dispose).calledOnce;
+    });
+
+    it('should describe the providers of its parent', () => {
+      const appInjector = rootInjector.provideClass('db', Database);
+      expect(appInjector.createChild().describe()).deep.eq(appInjector.describe());
+    });
+
+    it('should initialize its parent', async () => {
+      class Config {
+        public onInit = sinon.stub();
+      }
+      const branch = rootInjector.provideClass('config', Config).createChild();
+      await branch.init();
+      expect(branch.resolve('config').onInit).called;
+    });
+
+    it('should allow contributions to a multi provided token of its parent', () => {
+      class Plugin { }
+      const branch = rootInjector.provideMulti('plugins', Plugin).createChild().provideMulti('plugins', Plugin);
+      expect(branch.resolve('plugins')).lengthOf(2);
+    });
   });
 
   describe('ValueProvider', () => {
@@ -286,12 +917,137 @@ describe('InjectorImpl', () => {
     });
 
     it('should not be able to change the type of a token', () => {
-      expect(function(){
+      expect(() => {
         const answerProvider = rootInjector
           .provideValue('answer', 42)
-          .provideValue('answer', '42');
+          .provideValue('answer', '42' as any);
         answerProvider.resolve('answer');
-      }).to.throw('Token: answer is already used on this injector.');
+      }).to.throw(TokenAlreadyProvidedError, 'Token: answer is already used on this injector.');
+    });
+  });
+
+  describe('AsyncFactoryProvider', () => {
+    it('should provide the promise to synchronous injectables', async () => {
+      async function answer() {
+        return 42;
+      }
+      const sut = rootInjector.provideAsyncFactory('answer', answer);
+      const actual: Promise<number> = sut.resolve('answer');
+      expect(await actual).eq(42);
+    });
+
+    it('should unwrap the promise with resolveAsync', async () => {
+      const sut = rootInjector.provideAsyncFactory('answer', () => Promise.resolve(42));
+      const actual: number = await sut.resolveAsync('answer');
+      expect(actual).eq(42);
+    });
+
+    it('should inject resolved values into a class with injectClassAsync', async () => {
+      class Foo {
+        constructor(public readonly answer: number, public readonly bar: string) {}
+        public static inject = tokens('answer', 'bar');
+      }
+      const actual = await rootInjector
+        .provideAsyncFactory('answer', () => Promise.resolve(42))
+        .provideValue('bar', 'baz')
+        .injectClassAsync(Foo);
+      expect(actual.answer).eq(42);
+      expect(actual.bar).eq('baz');
+    });
+
+    it('should inject resolved values into a function with injectFunctionAsync', async () => {
+      function foo(answer: number) {
+        return Promise.resolve(answer + 1);
+      }
+      foo.inject = tokens('answer');
+      const actual: number = await rootInjector
+        .provideAsyncFactory('answer', () => Promise.resolve(41))
+        .injectFunctionAsync(foo);
+      expect(actual).eq(42);
+    });
+
+    it('should inject resolved values into the async factory', async () => {
+      async function connectionString(host: string) {
+        return `db://${host}`;
+      }
+      connectionString.inject = tokens('host');
+      async function pool(connection: string) {
+        return { connection };
+      }
+      pool.inject = tokens('connectionString');
+      const actual = await rootInjector
+        .provideAsyncFactory('host', () => Promise.resolve('localhost'))
+        .provideAsyncFactory('connectionString', connectionString)
+        .provideAsyncFactory('pool', pool)
+        .resolveAsync('pool');
+      expect(actual.connection).eq('db://localhost');
+    });
+
+    it('should dedupe concurrent resolutions of a singleton', async () => {
+      const factory = sinon.stub().resolves({ foo: 'bar' });
+      const sut = rootInjector.provideAsyncFactory('foo', factory as () => Promise<{ foo: string }>);
+      const [first, second] = await Promise.all([sut.resolveAsync('foo'), sut.resolveAsync('foo')]);
+      expect(factory).calledOnce;
+      expect(first).eq(second);
+    });
+
+    it('should call the factory again when a singleton rejected', async () => {
+      const factory = sinon.stub();
+      factory.onFirstCall().rejects(new Error('expected error'));
+      factory.onSecondCall().resolves({ foo: 'bar' });
+      const sut = rootInjector.provideAsyncFactory('foo', factory as () => Promise<{ foo: string }>);
+      expect(await rejection(sut.resolveAsync('foo'))).property('message').contains('expected error');
+      const foo = await sut.resolveAsync('foo');
+      expect(foo).deep.eq({ foo: 'bar' });
+      expect(await sut.resolveAsync('foo')).eq(foo);
+      expect(factory).calledTwice;
+    });
+
+    it('should _not_ cache the value if scope = Transient', async () => {
+      let n = 0;
+      const sut = rootInjector.provideAsyncFactory('count', async () => n++, Scope.Transient);
+      expect(await sut.resolveAsync('count')).eq(0);
+      expect(await sut.resolveAsync('count')).eq(1);
+    });
+
+    it('should dispose the resolved value', async () => {
+      const disposable: Disposable = { dispose: sinon.stub() };
+      const sut = rootInjector.provideAsyncFactory('disposable', async () => disposable);
+      await sut.resolveAsync('disposable');
+      await sut.dispose();
+      expect(disposable.dispose).called;
+    });
+
+    it('should reject when an async dependency rejects', async () => {
+      class Foo {
+        constructor(public readonly answer: number) {}
+        public static inject = tokens('answer');
+      }
+      function answer(): Promise<number> {
+        return Promise.reject(new Error('expected error'));
+      }
+      const sut = rootInjector.provideAsyncFactory('answer', answer);
+      const error = await rejection(sut.injectClassAsync(Foo));
+      expect(error).instanceOf(InjectionFailedError);
+      expect(error.message).eq('Could not inject "answer".\n  Resolution path: answer\n  Cause: expected error');
+    });
+
+    it('should reject when injecting a function fails', async () => {
+      function foo(answer: number) {
+        return answer;
+      }
+      foo.inject = ['answer'];
+      const error = await rejection(rootInjector.injectFunctionAsync(foo as any));
+      expect(error).instanceOf(NoProviderError);
+      expect(error.message).eq('No provider found for "answer".\n  Requested by: foo');
+    });
+
+    it('should reject after disposed', async () => {
+      const sut = rootInjector.provideAsyncFactory('answer', async () => 42);
+      await sut.dispose();
+      expect((await rejection(sut.resolveAsync('answer'))).message).eq('Injector is already disposed. Please don\'t use it anymore. Tried to resolve "answer".');
+      expect((await rejection(sut.injectClassAsync(class Bar {}))).message).eq('Injector is already disposed. Please don\'t use it anymore. Tried to inject "Bar".');
+      expect((await rejection(sut.injectFunctionAsync(async function baz() {}))).message).eq('Injector is already disposed. Please don\'t use it anymore. Tried to inject "baz".');
     });
   });
 
@@ -327,187 +1083,1963 @@ describe('InjectorImpl', () => {
     });
   });
 
-  describe(rootInjector.dispose.name, () => {
-    it('should dispose all disposable singleton dependencies', async () => {
-      // Arrange
-      class Foo {
-        public dispose2 = sinon.stub();
-        public dispose = sinon.stub();
-      }
-      function barFactory(): Disposable & { dispose3(): void } {
-        return { dispose: sinon.stub(), dispose3: sinon.stub() };
-      }
-      class Baz {
-        constructor(
-          public readonly bar: Disposable & { dispose3(): void },
-          public readonly foo: Foo
-        ) {}
-        public static inject = tokens('bar', 'foo');
+  describe('DecoratorProvider', () => {
+    class Foo {
+      public dispose = sinon.stub();
+      public bar() {
+        return 'bar';
       }
-      const bazInjector = rootInjector
-        .provideClass('foo', Foo)
-        .provideFactory('bar', barFactory);
-      const baz = bazInjector.injectClass(Baz);
+    }
+    class Baz {
+      constructor(public readonly foo: Foo) { }
+      public static inject = tokens('foo');
+    }
+    const decorate = (foo: Foo) => ({ ...foo, bar: () => `decorated ${foo.bar()}` });
 
-      // Act
-      await bazInjector.dispose();
+    it('should provide the decorated value for the token', () => {
+      const answerProvider = rootInjector
+        .provideValue('answer', 40)
+        .provideDecorator('answer', answer => answer + 2);
+      expect(answerProvider.resolve('answer')).eq(42);
+    });
 
-      // Assert
-      expect(baz.bar.dispose).called;
-      expect(baz.foo.dispose).called;
-      expect(baz.foo.dispose2).not.called;
-      expect(baz.bar.dispose3).not.called;
+    it('should shadow the token for providers that are added afterwards', () => {
+      const injector = rootInjector
+        .provideClass('foo', Foo)
+        .provideClass('before', Baz)
+        .provideDecorator('foo', decorate)
+        .provideClass('after', Baz);
+      expect(injector.resolve('before').foo).instanceOf(Foo);
+      expect(injector.resolve('after').foo.bar()).eq('decorated bar');
+      expect(injector.resolve('foo')).eq(injector.resolve('after').foo);
     });
 
-    it('should also dispose transient dependencies', async () => {
-      class Foo {
-        public dispose = sinon.stub();
+    it('should decorate a cached value only once', () => {
+      const decorator = sinon.stub().callsFake(decorate);
+      const injector = rootInjector
+        .provideClass('foo', Foo)
+        .provideDecorator('foo', decorator);
+      expect(injector.resolve('foo')).eq(injector.resolve('foo'));
+      expect(decorator).calledOnce;
+    });
+
+    it('should decorate every transient value', () => {
+      const injector = rootInjector
+        .provideClass('foo', Foo, Scope.Transient)
+        .provideDecorator('foo', decorate);
+      expect(injector.resolve('foo')).not.eq(injector.resolve('foo'));
+    });
+
+    it('should be able to decorate a decorated value', () => {
+      const injector = rootInjector
+        .provideValue('greeting', 'hello')
+        .provideDecorator('greeting', greeting => `${greeting} world`)
+        .provideDecorator('greeting', greeting => `${greeting}!`);
+      expect(injector.resolve('greeting')).eq('hello world!');
+    });
+
+    it('should resolve the original value for the same target', () => {
+      function createLogger(target: Function | undefined) {
+        return target && target.name;
+      }
+      createLogger.inject = tokens(TARGET_TOKEN);
+      class Qux {
+        constructor(public readonly logger: string | undefined) { }
+        public static inject = tokens('logger');
+      }
+      const actual = rootInjector
+        .provideFactory('logger', createLogger, Scope.Transient)
+        .provideDecorator('logger', name => `[${name}]`)
+        .injectClass(Qux);
+      expect(actual.logger).eq('[Qux]');
+    });
+
+    it('should be described as a decorator that depends on the original value', () => {
+      const injector = rootInjector
+        .provideClass('foo', Foo)
+        .provideDecorator('foo', decorate);
+      expect(injector.describe().providers[1]).deep.eq({
+        cached: false,
+        dependencies: [{ kind: 'required', token: 'foo' }],
+        kind: 'decorator',
+        scope: undefined,
+        token: 'foo'
+      });
+    });
+
+    it('should only dispose the original value', async () => {
+      const disposableDecorator = sinon.stub().returns({ dispose: sinon.stub() });
+      const injector = rootInjector
+        .provideClass('foo', Foo)
+        .provideDecorator('foo', disposableDecorator);
+      const decorated = injector.resolve('foo');
+      await injector.dispose();
+      expect(decorated.dispose).not.called;
+      expect(disposableDecorator.firstCall.args[0].dispose).calledOnce;
+    });
+
+    it('should resolve the decorated value from a frozen injector', () => {
+      const injector = rootInjector
+        .provideClass('foo', Foo)
+        .provideClass('before', Baz)
+        .provideDecorator('foo', decorate)
+        .provideClass('after', Baz)
+        .freeze();
+      expect(injector.resolve('before').foo).instanceOf(Foo);
+      expect(injector.resolve('after').foo.bar()).eq('decorated bar');
+    });
+  });
+
+  describe('AssistedFactoryProvider', () => {
+    class Database {
+      public dispose = sinon.stub();
+    }
+    class UserSession {
+      public dispose = sinon.stub();
+      constructor(public readonly db: Database, public readonly userId: string, public readonly timeout: number) { }
+      public static inject = tokens('db', 'userId', 'timeout');
+    }
+
+    it('should provide a function that creates an instance with the given arguments', () => {
+      const createSession = rootInjector
+        .provideClass('db', Database)
+        .provideAssistedFactory('sessionFactory', UserSession, ['userId', 'timeout'])
+        .resolve('sessionFactory');
+      const session = createSession('user-1', 1000);
+      expect(session).instanceOf(UserSession);
+      expect(session.userId).eq('user-1');
+      expect(session.timeout).eq(1000);
+    });
+
+    it('should pass the arguments in the order of the assisted tokens', () => {
+      const createSession = rootInjector
+        .provideClass('db', Database)
+        .provideAssistedFactory('sessionFactory', UserSession, ['timeout', 'userId'])
+        .resolve('sessionFactory');
+      const session = createSession(1000, 'user-1');
+      expect(session.userId).eq('user-1');
+      expect(session.timeout).eq(1000);
+    });
+
+    it('should resolve the other dependencies from the injector', () => {
+      const injector = rootInjector
+        .provideClass('db', Database)
+        .provideAssistedFactory('sessionFactory', UserSession, ['userId', 'timeout']);
+      expect(injector.resolve('sessionFactory')('user-1', 1000).db).eq(injector.resolve('db'));
+    });
+
+    it('should create a new instance every time it is called', () => {
+      const createSession = rootInjector
+        .provideClass('db', Database)
+        .provideAssistedFactory('sessionFactory', UserSession, ['userId', 'timeout'])
+        .resolve('sessionFactory');
+      expect(createSession('user-1', 1000)).not.eq(createSession('user-1', 1000));
+    });
+
+    it('should inject the target that requested the factory', () => {
+      class Session {
+        constructor(public readonly target: Function | undefined, public readonly userId: string) { }
+        public static inject = tokens(TARGET_TOKEN, 'userId');
+      }
+      class LoginController {
+        constructor(public readonly createSession: (userId: string) => Session) { }
+        public static inject = tokens('sessionFactory');
+      }
+      const controller = rootInjector
+        .provideAssistedFactory('sessionFactory', Session, ['userId'])
+        .injectClass(LoginController);
+      expect(controller.createSession('user-1').target).eq(LoginController);
+    });
+
+    it('should inject the target of each class that requested the factory', () => {
+      class Session {
+        constructor(public readonly target: Function | undefined, public readonly userId: string) { }
+        public static inject = tokens(TARGET_TOKEN, 'userId');
+      }
+      class LoginController {
+        constructor(public readonly createSession: (userId: string) => Session) { }
+        public static inject = tokens('sessionFactory');
+      }
+      class LogoutController {
+        constructor(public readonly createSession: (userId: string) => Session) { }
+        public static inject = tokens('sessionFactory');
+      }
+      const injector = rootInjector.provideAssistedFactory('sessionFactory', Session, ['userId']);
+      const login = injector.injectClass(LoginController);
+      const logout = injector.injectClass(LogoutController);
+      expect(login.createSession('user-1').target).eq(LoginController);
+      expect(logout.createSession('user-1').target).eq(LogoutController);
+      expect(injector.injectClass(LoginController).createSession).eq(login.createSession);
+    });
+
+    it('should wrap an error thrown by the constructor in an InjectionFailedError', () => {
+      class Session {
+        constructor(public readonly userId: string) {
+          throw new Error('expected error');
+        }
+        public static inject = tokens('userId');
+      }
+      const createSession = rootInjector
+        .provideAssistedFactory('sessionFactory', Session, ['userId'])
+        .resolve('sessionFactory');
+      expect(() => createSession('user-1')).throws(InjectionFailedError, 'Could not inject "Session".\n  Cause: expected error');
+    });
+
+    it('should throw after the injector is disposed', async () => {
+      const injector = rootInjector
+        .provideClass('db', Database)
+        .provideAssistedFactory('sessionFactory', UserSession, ['userId', 'timeout']);
+      const createSession = injector.resolve('sessionFactory');
+      await injector.dispose();
+      expect(() => createSession('user-1', 1000)).throws(InjectorDisposedError);
+    });
+
+    it('should not dispose the instances it created', async () => {
+      const injector = rootInjector
+        .provideClass('db', Database)
+        .provideAssistedFactory('sessionFactory', UserSession, ['userId', 'timeout']);
+      const session = injector.resolve('sessionFactory')('user-1', 1000);
+      await injector.dispose();
+      expect(session.dispose).not.called;
+      expect(session.db.dispose).called;
+    });
+
+    it('should be described as an assisted factory that depends on the other tokens', () => {
+      const injector = rootInjector
+        .provideClass('db', Database)
+        .provideAssistedFactory('sessionFactory', UserSession, ['userId', 'timeout']);
+      expect(injector.describe().providers[1]).deep.eq({
+        cached: false,
+        dependencies: [{ kind: 'required', token: 'db' }],
+        kind: 'assistedFactory',
+        scope: undefined,
+        token: 'sessionFactory'
+      });
+    });
+  });
+
+  describe('ContextualProvider', () => {
+    class Logger {
+      public dispose = sinon.stub();
+      constructor(public readonly name: string) { }
+    }
+    class Repository {
+      constructor(public readonly logger: Logger) { }
+      public static inject = tokens('logger');
+    }
+    class UserRepository extends Repository { }
+    class Service {
+      constructor(public readonly logger: Logger) { }
+      public static inject = tokens('logger');
+    }
+    const bindings: ContextualBindings<{}, Logger> = {
+      default: target => new Logger(target ? target.name : 'root'),
+      rules: [
+        { target: Service, use: () => new Logger('service') },
+        { targetExtends: Repository, use: target => new Logger(`repository ${target.name}`) }
+      ]
+    };
+
+    it('should provide the value of the rule that matches the target exactly', () => {
+      expect(rootInjector.provideContextual('logger', bindings).injectClass(Service).logger.name).eq('service');
+    });
+
+    it('should provide the value of the rule that matches a base class of the target', () => {
+      const injector = rootInjector.provideContextual('logger', bindings);
+      expect(injector.injectClass(Repository).logger.name).eq('repository Repository');
+      expect(injector.injectClass(UserRepository).logger.name).eq('repository UserRepository');
+    });
+
+    it('should provide the value of the rule with a matching predicate', () => {
+      const service = rootInjector
+        .provideContextual('logger', { ...bindings, rules: [{ when: target => target.name.startsWith('Serv'), use: () => new Logger('predicate') }] })
+        .injectClass(Service);
+      expect(service.logger.name).eq('predicate');
+    });
+
+    it('should skip the rules when resolved without a target', () => {
+      const when = sinon.stub().returns(true);
+      const logger = rootInjector
+        .provideContextual('logger', { ...bindings, rules: [{ when, use: () => new Logger('predicate') }] })
+        .resolve('logger');
+      expect(logger.name).eq('root');
+      expect(when).not.called;
+    });
+
+    it('should use the first rule that matches', () => {
+      const injector = rootInjector.provideContextual('logger', {
+        ...bindings,
+        rules: [{ when: target => target === UserRepository, use: () => new Logger('first') }, ...bindings.rules]
+      });
+      expect(injector.injectClass(UserRepository).logger.name).eq('first');
+    });
+
+    it('should use the default when no rule matches', () => {
+      class Qux {
+        constructor(public readonly logger: Logger) { }
+        public static inject = tokens('logger');
+      }
+      const injector = rootInjector.provideContextual('logger', bindings);
+      expect(injector.injectClass(Qux).logger.name).eq('Qux');
+      expect(injector.resolve('logger').name).eq('root');
+    });
+
+    it('should pass the parent injector to the rules', () => {
+      const logger = rootInjector
+        .provideValue('prefix', 'app')
+        .provideContextual('logger', { default: (_, injector) => new Logger(injector.resolve('prefix')), rules: [] })
+        .resolve('logger');
+      expect(logger.name).eq('app');
+    });
+
+    it('should cache singleton values per target', () => {
+      const factory = sinon.spy(bindings.default);
+      const injector = rootInjector.provideContextual('logger', { ...bindings, default: factory });
+      expect(injector.resolve('logger')).eq(injector.resolve('logger'));
+      expect(injector.injectClass(Service).logger).eq(injector.injectClass(Service).logger);
+      expect(injector.injectClass(Service).logger).not.eq(injector.resolve('logger'));
+      expect(injector.injectClass(Repository).logger).not.eq(injector.injectClass(UserRepository).logger);
+      expect(factory).calledOnce;
+    });
+
+    it('should create transient values every time', () => {
+      const injector = rootInjector.provideContextual('logger', bindings, Scope.Transient);
+      expect(injector.injectClass(Service).logger).not.eq(injector.injectClass(Service).logger);
+    });
+
+    it('should cache scoped values per target and scope', () => {
+      const injector = rootInjector.provideContextual('logger', bindings, Scope.Scoped);
+      const scope = injector.createScope();
+      expect(scope.injectClass(Service).logger).eq(scope.injectClass(Service).logger);
+      expect(scope.injectClass(Service).logger).not.eq(scope.resolve('logger'));
+      expect(scope.injectClass(Service).logger).not.eq(injector.createScope().injectClass(Service).logger);
+    });
+
+    it('should dispose the values of all targets', async () => {
+      const injector = rootInjector.provideContextual('logger', bindings);
+      const loggers = [injector.resolve('logger'), injector.injectClass(Service).logger, injector.injectClass(Repository).logger];
+      await injector.dispose();
+      loggers.forEach(logger => expect(logger.dispose).calledOnce);
+    });
+
+    it('should be described as contextual without dependencies', () => {
+      const injector = rootInjector.provideContextual('logger', bindings);
+      injector.injectClass(Service);
+      expect(injector.describe().providers[0]).deep.eq({
+        cached: true,
+        dependencies: [],
+        kind: 'contextual',
+        scope: Scope.Singleton,
+        token: 'logger'
+      });
+    });
+  });
+
+  describe('intercept', () => {
+    class Foo {
+      public bar() {
+        return 'bar';
+      }
+    }
+    class Baz {
+      constructor(public readonly foo: Foo) { }
+      public static inject = tokens('foo');
+    }
+
+    it('should be able to decorate an existing token', () => {
+      const answerProvider = rootInjector
+        .provideValue('answer', 40)
+        .intercept('answer', answer => answer + 1);
+      expect(answerProvider.resolve('answer')).eq(41);
+    });
+
+    it('should provide the token and target as context', () => {
+      const interceptor = sinon.stub().returnsArg(0);
+      const baz = rootInjector
+        .provideClass('foo', Foo)
+        .intercept('foo', interceptor)
+        .injectClass(Baz);
+      expect(interceptor).calledWith(baz.foo, { token: 'foo', target: Baz });
+    });
+
+    it('should provide an undefined target when resolved directly', () => {
+      const interceptor = sinon.stub().returnsArg(0);
+      rootInjector.provideClass('foo', Foo).intercept('foo', interceptor).resolve('foo');
+      expect(interceptor).calledWith(sinon.match.instanceOf(Foo), { token: 'foo', target: undefined });
+    });
+
+    it('should inject the wrapped value in dependents', () => {
+      const actual = rootInjector
+        .provideClass('foo', Foo)
+        .intercept('foo', foo => new Proxy(foo, { get: (target, property) => property === 'bar' ? () => 'intercepted' : (target as any)[property] }))
+        .provideClass('baz', Baz)
+        .resolve('baz');
+      expect(actual.foo.bar()).eq('intercepted');
+    });
+
+    it('should wrap a cached value only once', () => {
+      const interceptor = sinon.stub().callsFake((foo: Foo) => ({ foo }));
+      const injector = rootInjector
+        .provideClass('foo', Foo)
+        .intercept('foo', interceptor);
+      const first = injector.resolve('foo');
+      const second = injector.resolve('foo');
+      expect(first).eq(second);
+      expect(interceptor).calledOnce;
+    });
+
+    it('should wrap every transient value', () => {
+      const interceptor = sinon.stub().returnsArg(0);
+      const injector = rootInjector
+        .provideClass('foo', Foo, Scope.Transient)
+        .intercept('foo', interceptor);
+      injector.resolve('foo');
+      injector.resolve('foo');
+      expect(interceptor).calledTwice;
+    });
+
+    it('should not intercept other tokens', () => {
+      const interceptor = sinon.stub();
+      const injector = rootInjector
+        .provideValue('bar', 'bar')
+        .provideClass('foo', Foo)
+        .intercept('foo', interceptor);
+      expect(injector.resolve('bar')).eq('bar');
+      expect(interceptor).not.called;
+    });
+
+    it('should inject the original value in dependents that were provided before', () => {
+      const baseInjector = rootInjector
+        .provideClass('foo', Foo)
+        .provideClass('baz', Baz);
+      const baz = baseInjector
+        .intercept('foo', () => new Foo())
+        .resolve('baz');
+      expect(baz.foo).eq(baseInjector.resolve('foo'));
+    });
+
+    it('should not affect the injector it was created from, nor its other children', () => {
+      const interceptor = sinon.stub().callsFake((foo: Foo) => ({ foo }));
+      const baseInjector = rootInjector.provideClass('foo', Foo);
+      const intercepted = baseInjector.createChild().intercept('foo', interceptor);
+      const sibling = baseInjector.createChild();
+      expect(intercepted.resolve('foo')).deep.eq({ foo: baseInjector.resolve('foo') });
+      expect(baseInjector.resolve('foo')).instanceOf(Foo);
+      expect(sibling.resolve('foo')).instanceOf(Foo);
+      expect(interceptor).calledOnce;
+    });
+
+    it('should wrap a value that was cached before', () => {
+      const baseInjector = rootInjector.provideClass('foo', Foo);
+      const foo = baseInjector.resolve('foo');
+      expect(baseInjector.intercept('foo', value => ({ value }) as any).resolve('foo')).deep.eq({ value: foo });
+    });
+
+    it('should cache the wrapped value', () => {
+      const interceptor = sinon.stub().callsFake((foo: Foo) => ({ foo }));
+      const injector = rootInjector
+        .provideClass('foo', Foo)
+        .intercept('foo', interceptor)
+        .provideClass('baz', Baz);
+      expect(injector.resolve('baz').foo).eq(injector.resolve('foo'));
+      expect(interceptor).calledOnce;
+      expect(interceptor).calledWith(sinon.match.instanceOf(Foo), { token: 'foo', target: Baz });
+    });
+
+    it('should call the interceptor for each target of a contextual value', () => {
+      class Qux {
+        constructor(public readonly foo: Foo) { }
+        public static inject = tokens('foo');
+      }
+      const interceptor = sinon.stub().returnsArg(0);
+      const injector = rootInjector
+        .provideContextual('foo', { default: () => new Foo(), rules: [] })
+        .intercept('foo', interceptor);
+      injector.injectClass(Baz);
+      injector.injectClass(Qux);
+      expect(interceptor).calledWith(sinon.match.instanceOf(Foo), { token: 'foo', target: Baz });
+      expect(interceptor).calledWith(sinon.match.instanceOf(Foo), { token: 'foo', target: Qux });
+    });
+
+    it('should call the lifecycle hooks of the original value', async () => {
+      class Qux {
+        public onInit = sinon.stub();
+        public dispose = sinon.stub();
+      }
+      const injector = rootInjector
+        .provideClass('qux', Qux)
+        .intercept('qux', qux => ({ ...qux }));
+      const qux = injector.resolve('qux');
+      await injector.init();
+      await injector.dispose();
+      expect(qux.onInit).calledOnce;
+      expect(qux.dispose).calledOnce;
+    });
+
+    it('should wrap a value again when another interceptor is added', () => {
+      const foo = new Foo();
+      const injector = rootInjector
+        .provideValue('foo', foo)
+        .intercept('foo', value => ({ value }) as any);
+      const first = injector.resolve('foo');
+      const second = injector.intercept('foo', value => ({ value }) as any).resolve('foo');
+      expect(first).deep.eq({ value: foo });
+      expect(second).deep.eq({ value: { value: foo } });
+    });
+
+    it('should wrap the contributions of a multi provider', () => {
+      const injector = rootInjector
+        .provideMulti('foos', Foo)
+        .provideMulti('foos', Foo)
+        .intercept('foos', foos => foos.slice(1));
+      expect(injector.resolve('foos')).lengthOf(1);
+    });
+
+    it('should intercept the decorated value of a decorated token', () => {
+      const actual = rootInjector
+        .provideValue('answer', 40)
+        .provideDecorator('answer', answer => answer * 2)
+        .intercept('answer', answer => answer + 1)
+        .resolve('answer');
+      expect(actual).eq(81);
+    });
+
+    it('should throw when the token is not provided', () => {
+      expect(() => rootInjector.intercept('foo' as never, foo => foo)).throws('Token "foo" can\'t be intercepted, as it isn\'t provided.');
+    });
+  });
+
+  describe('instrument', () => {
+    class Foo {
+      public dispose = sinon.stub();
+    }
+    class Baz {
+      constructor(public readonly foo: Foo) { }
+      public static inject = tokens('foo');
+    }
+
+    function createInstrumentation() {
+      return {
+        onCacheHit: sinon.stub(),
+        onDispose: sinon.stub(),
+        onInstantiate: sinon.stub(),
+        onResolve: sinon.stub()
+      };
+    }
+
+    it('should report resolving a value', () => {
+      const instrumentation = createInstrumentation();
+      rootInjector.instrument(instrumentation).provideValue('foo', 'bar').resolve('foo');
+      expect(instrumentation.onResolve).calledWith({ token: 'foo', kind: 'value', scope: undefined, target: undefined });
+      expect(instrumentation.onInstantiate).not.called;
+    });
+
+    it('should report the target that requested the value', () => {
+      const instrumentation = createInstrumentation();
+      rootInjector.instrument(instrumentation).provideClass('foo', Foo).injectClass(Baz);
+      expect(instrumentation.onResolve).calledWith({ token: 'foo', kind: 'class', scope: Scope.Singleton, target: Baz });
+    });
+
+    it('should report the instantiation of a value with its duration', () => {
+      const instrumentation = createInstrumentation();
+      function bazFactory(foo: Foo) {
+        return new Baz(foo);
+      }
+      bazFactory.inject = tokens('foo');
+      rootInjector.instrument(instrumentation)
+        .provideClass('foo', Foo)
+        .provideFactory('baz', bazFactory, Scope.Transient)
+        .resolve('baz');
+      expect(instrumentation.onInstantiate).calledTwice;
+      const [foo, baz] = instrumentation.onInstantiate.getCalls().map(call => call.args[0]);
+      expect(foo).include({ token: 'foo', kind: 'class', scope: Scope.Singleton, target: bazFactory });
+      expect(baz).include({ token: 'baz', kind: 'factory', scope: Scope.Transient, target: undefined });
+      expect(foo.duration).gte(0);
+      expect(baz.duration).gte(foo.duration);
+      expect(baz.startTime).lte(foo.startTime);
+    });
+
+    it('should not measure the time it takes to create a value without an instrumentation', () => {
+      const now = sinon.spy(performance, 'now');
+      rootInjector.provideClass('foo', Foo).injectClass(Baz);
+      expect(now).not.called;
+    });
+
+    it('should report a cache hit for a singleton', () => {
+      const instrumentation = createInstrumentation();
+      const injector = rootInjector.instrument(instrumentation).provideClass('foo', Foo);
+      injector.resolve('foo');
+      expect(instrumentation.onCacheHit).not.called;
+      injector.injectClass(Baz);
+      expect(instrumentation.onCacheHit).calledOnceWith({ token: 'foo', kind: 'class', scope: Scope.Singleton, target: Baz });
+      expect(instrumentation.onInstantiate).calledOnce;
+      expect(instrumentation.onResolve).calledTwice;
+    });
+
+    it('should report a cache hit for a scoped value in the same scope', () => {
+      const instrumentation = createInstrumentation();
+      const injector = rootInjector.instrument(instrumentation).provideClass('foo', Foo, Scope.Scoped);
+      const scope = injector.createScope();
+      scope.resolve('foo');
+      scope.resolve('foo');
+      injector.createScope().resolve('foo');
+      expect(instrumentation.onCacheHit).calledOnceWith({ token: 'foo', kind: 'class', scope: Scope.Scoped, target: undefined });
+      expect(instrumentation.onInstantiate).calledTwice;
+    });
+
+    it('should report the instantiation of an async factory when its promise resolves', async () => {
+      const instrumentation = createInstrumentation();
+      const task = new Task();
+      const actual = rootInjector.instrument(instrumentation).provideAsyncFactory('foo', () => task.promise.then(() => 'foo')).resolve('foo');
+      await tick();
+      expect(instrumentation.onInstantiate).not.called;
+      task.resolve();
+      await actual;
+      await tick();
+      expect(instrumentation.onInstantiate).calledOnce;
+      expect(instrumentation.onInstantiate.firstCall.args[0]).include({ token: 'foo', kind: 'asyncFactory' });
+    });
+
+    it('should report resolving a multi provided token', () => {
+      const instrumentation = createInstrumentation();
+      rootInjector.instrument(instrumentation).provideMulti('foos', Foo).provideMulti('foos', Foo).resolve('foos');
+      expect(instrumentation.onResolve).calledTwice;
+      expect(instrumentation.onResolve).calledWith({ token: 'foos', kind: 'multi', scope: Scope.Singleton, target: undefined });
+      expect(instrumentation.onInstantiate).calledTwice;
+    });
+
+    it('should report disposing a value with its duration', async () => {
+      const instrumentation = createInstrumentation();
+      const injector = rootInjector.instrument(instrumentation).provideClass('foo', Foo);
+      injector.injectClass(Baz);
+      await injector.dispose();
+      expect(instrumentation.onDispose).calledOnce;
+      const event = instrumentation.onDispose.firstCall.args[0];
+      expect(event).include({ token: 'foo', kind: 'class', scope: Scope.Singleton, target: Baz, error: undefined });
+      expect(event.duration).gte(0);
+    });
+
+    it('should report a value that could not be disposed', async () => {
+      const instrumentation = createInstrumentation();
+      const expectedError = new Error('expected');
+      const injector = rootInjector.instrument(instrumentation).provideClass('foo', Foo);
+      injector.resolve('foo').dispose.rejects(expectedError);
+      await rejection(injector.dispose());
+      expect(instrumentation.onDispose).calledOnce;
+      expect(instrumentation.onDispose.firstCall.args[0]).include({ token: 'foo', error: expectedError });
+    });
+
+    it('should not report providers that were provided before', async () => {
+      const instrumentation = createInstrumentation();
+      const injector = rootInjector.provideClass('foo', Foo).instrument(instrumentation);
+      injector.resolve('foo');
+      await injector.dispose();
+      expect(instrumentation.onResolve).not.called;
+      expect(instrumentation.onInstantiate).not.called;
+      expect(instrumentation.onDispose).not.called;
+    });
+
+    it('should report to all instrumentations, implementing only some of the hooks', () => {
+      const first = { onResolve: sinon.stub() };
+      const second = createInstrumentation();
+      const injector = rootInjector.instrument(first).instrument(second).provideClass('foo', Foo);
+      injector.resolve('foo');
+      expect(first.onResolve).calledOnce;
+      expect(second.onResolve).calledOnce;
+      expect(second.onInstantiate).calledOnce;
+    });
+
+    it('should pass the instrumentations on via scopes and interceptors', () => {
+      const instrumentation = createInstrumentation();
+      rootInjector
+        .instrument(instrumentation)
+        .createScope()
+        .provideValue('foo', new Foo())
+        .intercept('foo', foo => foo)
+        .provideClass('baz', Baz)
+        .resolve('baz');
+      expect(instrumentation.onResolve).calledTwice;
+    });
+
+    it('should still know which tokens are provided', () => {
+      const injector = rootInjector
+        .provideMulti('foos', Foo)
+        .instrument(createInstrumentation())
+        .provideMulti('foos', Foo);
+      expect(injector.resolve('foos')).lengthOf(2);
+      expect(injector.describe().providers).lengthOf(2);
+    });
+
+    it('should initialize and dispose its parent', async () => {
+      class Qux {
+        public onInit = sinon.stub();
+        public dispose = sinon.stub();
+      }
+      const quxProvider = rootInjector.provideClass('qux', Qux);
+      const injector = quxProvider.instrument(createInstrumentation());
+      await injector.init();
+      const qux = quxProvider.resolve('qux');
+      await injector.dispose();
+      await injector.dispose();
+      expect(qux.onInit).calledOnce;
+      expect(qux.dispose).calledOnce;
+      expect(() => quxProvider.resolve('qux')).throws(InjectorDisposedError);
+    });
+  });
+
+  describe('freeze', () => {
+    class Foo { }
+    class Bar {
+      constructor(public readonly foo: Foo) { }
+      public static inject = tokens('foo');
+    }
+    class Baz {
+      constructor(public readonly bar: Bar, public readonly qux: string | undefined) { }
+      public static inject = tokens('bar', optional('qux'));
+    }
+
+    it('should resolve the same values as the injector it was created from', () => {
+      const injector = rootInjector.provideValue('answer', 42).provideClass('foo', Foo).provideClass('bar', Bar);
+      const frozen = injector.freeze();
+      expect(frozen.resolve('answer')).eq(42);
+      expect(frozen.resolve('foo')).eq(injector.resolve('foo'));
+      expect(frozen.resolve('bar').foo).eq(injector.resolve('foo'));
+    });
+
+    it('should resolve the dependencies of transient values', () => {
+      const frozen = rootInjector.provideClass('foo', Foo).provideClass('bar', Bar, Scope.Transient).freeze();
+      const first = frozen.resolve('bar');
+      const second = frozen.resolve('bar');
+      expect(first).not.eq(second);
+      expect(first.foo).eq(second.foo);
+    });
+
+    it('should throw a NoProviderError for unknown tokens', () => {
+      const frozen = rootInjector.provideClass('foo', Foo).freeze() as Injector<any>;
+      expect(() => frozen.resolve('bar')).throws(NoProviderError, 'No provider found for "bar"');
+    });
+
+    it('should be able to provide more values, knowing which tokens are already provided', () => {
+      const frozen = rootInjector.provideClass('foo', Foo).provideClass('bar', Bar).freeze();
+      const baz = frozen.provideValue('qux', 'qux').injectClass(Baz);
+      expect(baz.bar).eq(frozen.resolve('bar'));
+      expect(baz.qux).eq('qux');
+      expect(frozen.injectClass(Baz).qux).undefined;
+      expect(() => frozen.provideValue('foo', new Foo() as any)).throws('Token: foo is already used on this injector.');
+    });
+
+    it('should collect all contributions of a multi provided token', () => {
+      const frozen = rootInjector.provideMulti('foos', Foo).provideMulti('foos', Foo).freeze();
+      const actual = frozen.provideMulti('foos', Foo).resolve('foos');
+      expect(actual).lengthOf(3);
+      expect(frozen.resolve('foos')).deep.eq(actual.slice(0, 2));
+    });
+
+    it('should wrap the values of an intercepted token for the dependents that are provided after it', () => {
+      const frozen = rootInjector
+        .provideClass('foo', Foo)
+        .provideClass('bar', Bar)
+        .intercept('foo', () => 'intercepted' as any)
+        .provideClass('qux', Bar)
+        .freeze();
+      expect(frozen.resolve('bar').foo).instanceOf(Foo);
+      expect(frozen.resolve('qux').foo).eq('intercepted');
+      expect(frozen.resolve('foo')).eq('intercepted');
+    });
+
+    it('should activate the scopes it was created from', () => {
+      const scope = rootInjector
+        .provideClass('foo', Foo, Scope.Scoped)
+        .createScope()
+        .provideClass('bar', Bar, Scope.Transient)
+        .freeze();
+      expect(scope.resolve('bar').foo).eq(scope.resolve('foo'));
+      expect(scope.resolve('bar').foo).eq(scope.resolve('bar').foo);
+    });
+
+    it('should still resolve values of unrelated injectors from a factory', () => {
+      const other = rootInjector.provideClass('foo', Foo).provideValue('qux', 'qux');
+      const frozen = rootInjector.provideFactory('foo', () => other.resolve('foo')).freeze();
+      expect(frozen.resolve('foo')).eq(other.resolve('foo'));
+    });
+
+    it('should find optional tokens in the table', () => {
+      const quxProvider = rootInjector.provideValue('qux', 'qux');
+      const injector = quxProvider.provideClass('foo', Foo).provideClass('bar', Bar).provideClass('baz', Baz);
+      const frozen = injector.freeze();
+      const isProvided = sinon.spy(quxProvider as any, 'isProvided');
+      expect(frozen.resolve('baz').qux).eq('qux');
+      expect(isProvided).not.called;
+      expect(rootInjector.provideClass('foo', Foo).provideClass('bar', Bar).provideClass('baz', Baz).freeze().resolve('baz').qux).undefined;
+      expect(rootInjector.provideClass('foo', Foo).provideClass('bar', Bar).provideClass('baz', Baz).provideValue('qux', 'qux').freeze().resolve('baz').qux).undefined;
+    });
+
+    it('should still find optional tokens of unrelated injectors from a factory', () => {
+      const other = rootInjector.provideClass('foo', Foo).provideClass('bar', Bar).provideValue('qux', 'qux');
+      const frozen = rootInjector.provideFactory('baz', () => other.injectClass(Baz)).freeze();
+      expect(frozen.resolve('baz').qux).eq('qux');
+    });
+
+    it('should resolve lazy tokens using the table', () => {
+      class Qux {
+        constructor(public readonly getFoo: () => Foo) { }
+        public static inject = tokens(lazy('foo'));
+      }
+      const fooProvider = rootInjector.provideClass('foo', Foo);
+      const barProvider = fooProvider.provideClass('bar', Bar);
+      const frozen = barProvider.provideClass('qux', Qux).freeze();
+      const qux = frozen.resolve('qux');
+      const resolve = sinon.spy(barProvider, 'resolve');
+      expect(qux.getFoo()).eq(frozen.resolve('foo'));
+      expect(resolve).not.called;
+    });
+
+    it('should be able to freeze a frozen injector', () => {
+      const frozen = rootInjector
+        .instrument({})
+        .provideClass('foo', Foo)
+        .freeze()
+        .provideClass('bar', Bar)
+        .freeze();
+      expect(frozen.resolve('bar').foo).eq(frozen.resolve('foo'));
+    });
+
+    it('should still describe its providers', () => {
+      const frozen = rootInjector.provideClass('foo', Foo).freeze();
+      expect(frozen.describe().providers.map(provider => provider.token)).deep.eq(['foo']);
+    });
+
+    it('should initialize and dispose its parent', async () => {
+      class Qux {
+        public onInit = sinon.stub();
+        public dispose = sinon.stub();
+      }
+      const quxProvider = rootInjector.provideClass('qux', Qux);
+      const injector = quxProvider.freeze();
+      await injector.init();
+      const qux = quxProvider.resolve('qux');
+      await injector.dispose();
+      await injector.dispose();
+      expect(qux.onInit).calledOnce;
+      expect(qux.dispose).calledOnce;
+      expect(() => injector.resolve('qux')).throws(InjectorDisposedError);
+    });
+  });
+
+  describe(rootInjector.dispose.name, () => {
+    it('should dispose all disposable singleton dependencies', async () => {
+      // Arrange
+      class Foo {
+        public dispose2 = sinon.stub();
+        public dispose = sinon.stub();
+      }
+      function barFactory(): Disposable & { dispose3(): void } {
+        return { dispose: sinon.stub(), dispose3: sinon.stub() };
+      }
+      class Baz {
+        constructor(
+          public readonly bar: Disposable & { dispose3(): void },
+          public readonly foo: Foo
+        ) {}
+        public static inject = tokens('bar', 'foo');
+      }
+      const bazInjector = rootInjector
+        .provideClass('foo', Foo)
+        .provideFactory('bar', barFactory);
+      const baz = bazInjector.injectClass(Baz);
+
+      // Act
+      await bazInjector.dispose();
+
+      // Assert
+      expect(baz.bar.dispose).called;
+      expect(baz.foo.dispose).called;
+      expect(baz.foo.dispose2).not.called;
+      expect(baz.bar.dispose3).not.called;
+    });
+
+    it('should also dispose transient dependencies', async () => {
+      class Foo {
+        public dispose = sinon.stub();
+      }
+      function barFactory(): Disposable {
+        return { dispose: sinon.stub() };
+      }
+      class Baz {
+        constructor(
+          public readonly bar: Disposable,
+          public readonly foo: Foo
+        ) {}
+        public static inject = tokens('bar', 'foo');
+      }
+      const bazInjector = rootInjector
+        .provideClass('foo', Foo, Scope.Transient)
+        .provideFactory('bar', barFactory, Scope.Transient);
+      const baz = bazInjector.injectClass(Baz);
+
+      // Act
+      await bazInjector.dispose();
+
+      // Assert
+      expect(baz.bar.dispose).called;
+      expect(baz.foo.dispose).called;
+    });
+
+    it('should dispose dependencies in reverse creation order', async () => {
+      class Grandparent {
+        public dispose = sinon.stub();
+      }
+      class Parent {
+        public dispose = sinon.stub();
+      }
+      class Child {
+        constructor(
+          public readonly parent: Parent,
+          public readonly grandparent: Grandparent
+        ) {}
+        public static inject = tokens('parent', 'grandparent');
+        public dispose = sinon.stub();
+      }
+      const bazProvider = rootInjector
+        .provideClass('grandparent', Grandparent, Scope.Transient)
+        .provideClass('parent', Parent)
+        .provideClass('child', Child);
+      const child = bazProvider.resolve('child');
+      const newGrandparent = bazProvider.resolve('grandparent');
+
+      // Act
+      await bazProvider.dispose();
+
+      // Assert
+      expect(newGrandparent.dispose).calledBefore(child.dispose);
+      expect(child.dispose).calledBefore(child.grandparent.dispose);
+      expect(child.grandparent.dispose).calledBefore(child.parent.dispose);
+    });
+
+    it('should not dispose injected classes or functions', async () => {
+      class Foo {
+        public dispose = sinon.stub();
       }
       function barFactory(): Disposable {
         return { dispose: sinon.stub() };
       }
-      class Baz {
-        constructor(
-          public readonly bar: Disposable,
-          public readonly foo: Foo
-        ) {}
-        public static inject = tokens('bar', 'foo');
+      const foo = rootInjector.injectClass(Foo);
+      const bar = rootInjector.injectFunction(barFactory);
+      await rootInjector.dispose();
+      expect(foo.dispose).not.called;
+      expect(bar.dispose).not.called;
+    });
+
+    it('should not dispose providedValues', async () => {
+      const disposable: Disposable = { dispose: sinon.stub() };
+      const disposableProvider = rootInjector.provideValue(
+        'disposable',
+        disposable
+      );
+      disposableProvider.resolve('disposable');
+      await disposableProvider.dispose();
+      expect(disposable.dispose).not.called;
+    });
+
+    it('should not break on non-disposable dependencies', async () => {
+      class Foo {
+        public dispose = true;
+      }
+      function barFactory(): { dispose: string } {
+        return { dispose: 'no-fn' };
+      }
+      class Baz {
+        constructor(
+          public readonly bar: { dispose: string },
+          public readonly foo: Foo
+        ) {}
+        public static inject = tokens('bar', 'foo');
+      }
+      const bazInjector = rootInjector
+        .provideClass('foo', Foo)
+        .provideFactory('bar', barFactory);
+      const baz = bazInjector.injectClass(Baz);
+
+      // Act
+      await bazInjector.dispose();
+
+      // Assert
+      expect(baz.bar.dispose).eq('no-fn');
+      expect(baz.foo.dispose).eq(true);
+    });
+
+    it('should not dispose dependencies twice', async () => {
+      const fooProvider = rootInjector.provideClass(
+        'foo',
+        class Foo implements Disposable {
+          public dispose = sinon.stub();
+        }
+      );
+      const foo = fooProvider.resolve('foo');
+      await fooProvider.dispose();
+      await fooProvider.dispose();
+      expect(foo.dispose).calledOnce;
+    });
+
+    it('should await dispose()', async () => {
+      // Arrange
+      const fooStub = sinon.stub();
+      class Foo {
+        public task = new Task();
+        public dispose() {
+          fooStub();
+          return this.task.promise;
+        }
+      }
+      const fooProvider = rootInjector.provideClass('foo', Foo);
+      const foo = fooProvider.resolve('foo');
+      let resolved = false;
+
+      // Act
+      const promise = fooProvider.dispose().then(() => {
+        resolved = true;
+      });
+      await tick(); // make sure it has a chance to fail.
+
+      // Assert
+      expect(fooStub).called;
+      expect(resolved).false;
+      foo.task.resolve();
+      await promise;
+      expect(resolved).true;
+    });
+
+    it('should dispose one value at a time', async () => {
+      // Arrange
+      class Foo {
+        public task = new Task();
+        public dispose = sinon.stub().returns(this.task.promise);
+      }
+      class Bar {
+        constructor(public readonly foo: Foo) { }
+        public task = new Task();
+        public dispose = sinon.stub().returns(this.task.promise);
+        public static inject = tokens('foo');
+      }
+      const barProvider = rootInjector
+        .provideClass('foo', Foo)
+        .provideClass('bar', Bar);
+      const bar = barProvider.resolve('bar');
+
+      // Act
+      const promise = barProvider.dispose();
+      await tick();
+
+      // Assert
+      expect(bar.dispose).called;
+      expect(bar.foo.dispose).not.called;
+      bar.task.resolve();
+      await tick();
+      expect(bar.foo.dispose).called;
+      bar.foo.task.resolve();
+      await promise;
+    });
+
+    it('should dispose all values, even when some of them fail to dispose', async () => {
+      // Arrange
+      const rejectError = new Error('rejected');
+      const throwError = new Error('thrown');
+      class Foo {
+        public dispose = sinon.stub();
+      }
+      const injector = rootInjector
+        .provideClass('foo', Foo)
+        .provideFactory('rejects', () => ({ dispose: () => Promise.reject(rejectError) }))
+        .provideClass('bar', Foo)
+        .provideFactory('throws', () => ({ dispose() { throw throwError; } }));
+      const foo = injector.resolve('foo');
+      injector.resolve('rejects');
+      const bar = injector.resolve('bar');
+      injector.resolve('throws');
+
+      // Act
+      const error = await rejection(injector.dispose());
+
+      // Assert
+      expect(foo.dispose).called;
+      expect(bar.dispose).called;
+      expect(error).instanceOf(DisposeFailedError);
+      expect(error.failures).deep.eq([
+        { token: 'throws', error: throwError },
+        { token: 'rejects', error: rejectError }
+      ]);
+    });
+
+    it('should continue with the next value when a value takes longer than the timeout', async () => {
+      // Arrange
+      class Foo {
+        public dispose = sinon.stub();
+      }
+      const hanging = new Task();
+      const injector = rootInjector
+        .provideClass('foo', Foo)
+        .provideFactory('hangs', () => ({ dispose: () => hanging.promise }));
+      const foo = injector.resolve('foo');
+      injector.resolve('hangs');
+
+      // Act
+      const error = await rejection(injector.dispose({ timeout: 1 }));
+
+      // Assert
+      expect(foo.dispose).called;
+      expect(error).instanceOf(DisposeFailedError);
+      expect(error.failures).lengthOf(1);
+      expect(error.failures[0].error).instanceOf(DisposeTimeoutError);
+      expect(error.failures[0].error.token).eq('hangs');
+    });
+
+    it('should not time out when values are disposed in time', async () => {
+      const fooProvider = rootInjector.provideClass('foo', class Foo {
+        public dispose = sinon.stub().resolves();
+      });
+      const foo = fooProvider.resolve('foo');
+      await fooProvider.dispose({ timeout: 1000 });
+      expect(foo.dispose).called;
+    });
+
+    it('should only dispose the scoped values when disposing a scope', async () => {
+      class Foo {
+        public dispose = sinon.stub();
+      }
+      const injector = rootInjector
+        .provideClass('singleton', Foo)
+        .provideClass('scoped', Foo, Scope.Scoped);
+      const scope = injector.createScope();
+      const singleton = scope.resolve('singleton');
+      const scoped = scope.resolve('scoped');
+      await scope.dispose();
+      await scope.dispose();
+      expect(scoped.dispose).calledOnce;
+      expect(singleton.dispose).not.called;
+    });
+  });
+
+  describe(rootInjector.init.name, () => {
+    class Foo {
+      public onInit = sinon.stub();
+    }
+    function createBar() {
+      return { onInit: sinon.stub() };
+    }
+
+    it('should call onInit after a class or factory provider created a value', () => {
+      const injector = rootInjector
+        .provideClass('foo', Foo)
+        .provideFactory('bar', createBar);
+      expect(injector.resolve('foo').onInit).calledOnce;
+      expect(injector.resolve('bar').onInit).calledOnce;
+    });
+
+    it('should not call onInit on provided values or injected classes', () => {
+      const foo = new Foo();
+      const injector = rootInjector.provideValue('foo', foo);
+      injector.resolve('foo');
+      expect(foo.onInit).not.called;
+      expect(injector.injectClass(Foo).onInit).not.called;
+    });
+
+    it('should create all singletons and await their initialization', async () => {
+      // Arrange
+      const task = new Task();
+      const createdFoos: Foo[] = [];
+      class Baz {
+        public onInit() {
+          return task.promise;
+        }
+      }
+      const injector = rootInjector
+        .provideFactory('foo', () => { const foo = new Foo(); createdFoos.push(foo); return foo; }, Scope.Transient)
+        .provideFactory('bar', createBar)
+        .provideClass('baz', Baz);
+      let initialized = false;
+
+      // Act
+      const promise = injector.init().then(() => initialized = true);
+      await tick();
+
+      // Assert
+      expect(createdFoos).lengthOf(0);
+      expect(initialized).false;
+      task.resolve();
+      await promise;
+      expect(injector.resolve('bar').onInit).calledOnce;
+    });
+
+    it('should reject when a value could not be initialized', async () => {
+      const expectedError = new Error('expected');
+      class Baz {
+        public onInit(): Promise<void> {
+          return Promise.reject(expectedError);
+        }
+      }
+      const injector = rootInjector.provideClass('baz', Baz, Scope.Transient);
+      injector.resolve('baz');
+      expect(await rejection(injector.init())).eq(expectedError);
+    });
+
+    it('should reject when onInit throws', async () => {
+      const expectedError = new Error('expected');
+      class Baz {
+        public onInit() {
+          throw expectedError;
+        }
+      }
+      const injector = rootInjector.provideClass('baz', Baz);
+      expect(await rejection(injector.init())).eq(expectedError);
+    });
+
+    it('should await async singletons', async () => {
+      const expectedError = new Error('expected');
+      function createFoo(): Promise<string> {
+        return Promise.reject(expectedError);
+      }
+      const injector = rootInjector.provideAsyncFactory('foo', createFoo);
+      const error = await rejection(injector.init());
+      expect(error).instanceOf(InjectionFailedError);
+      expect(error.cause).eq(expectedError);
+    });
+
+    it('should call onInit after an async factory provider resolved a value', async () => {
+      const task = new Task();
+      const db = { onInit: sinon.stub().returns(task.promise) };
+      const injector = rootInjector.provideAsyncFactory('db', async () => db);
+      let initialized = false;
+      const promise = injector.init().then(() => initialized = true);
+      await tick();
+      expect(db.onInit).calledOnce;
+      expect(initialized).false;
+      task.resolve();
+      await promise;
+      expect(initialized).true;
+    });
+
+    it('should reject when an async value could not be initialized', async () => {
+      const expectedError = new Error('expected');
+      const injector = rootInjector.provideAsyncFactory('db', async () => ({ onInit: () => Promise.reject(expectedError) }), Scope.Transient);
+      await injector.resolve('db');
+      expect(await rejection(injector.init())).eq(expectedError);
+    });
+
+    it('should leave a rejected async value of a transient provider to its consumer', async () => {
+      const expectedError = new Error('expected');
+      const injector = rootInjector.provideAsyncFactory('db', () => Promise.reject(expectedError), Scope.Transient);
+      expect(await rejection(injector.resolve('db'))).instanceOf(InjectionFailedError);
+      await injector.init();
+    });
+
+    it('should initialize the injector of a scope', async () => {
+      const injector = rootInjector.provideClass('foo', Foo);
+      await injector.createScope().init();
+      expect(injector.resolve('foo').onInit).calledOnce;
+    });
+
+    it('should throw after disposed', async () => {
+      const injector = rootInjector.provideClass('foo', Foo);
+      await injector.dispose();
+      expect(await rejection(injector.init())).instanceOf(InjectorDisposedError);
+    });
+  });
+
+  describe(rootInjector.release.name, () => {
+    class Handler {
+      public dispose = sinon.stub();
+    }
+    class Consumer {
+      constructor(public readonly handler: Handler) { }
+      public static inject = tokens('handler');
+    }
+
+    it('should dispose a transient value', async () => {
+      const injector = rootInjector.provideClass('handler', Handler, Scope.Transient);
+      const handler = injector.resolve('handler');
+      await injector.release(handler);
+      expect(handler.dispose).calledOnce;
+    });
+
+    it('should no longer track a released value', async () => {
+      const injector = rootInjector.provideClass('handler', Handler, Scope.Transient);
+      const released = injector.resolve('handler');
+      const kept = injector.resolve('handler');
+      await injector.release(released);
+      await rejection(injector.release(released));
+      await injector.dispose();
+      expect(released.dispose).calledOnce;
+      expect(kept.dispose).calledOnce;
+    });
+
+    it('should release a value of a parent', async () => {
+      const injector = rootInjector
+        .provideClass('handler', Handler, Scope.Transient)
+        .provideClass('consumer', Consumer, Scope.Transient)
+        .createChild()
+        .instrument({})
+        .freeze()
+        .createScope();
+      const { handler } = injector.resolve('consumer');
+      await injector.release(handler);
+      await injector.dispose();
+      expect(handler.dispose).calledOnce;
+    });
+
+    it('should release the original value of an intercepted value', async () => {
+      const original = new Handler();
+      const injector = rootInjector
+        .provideFactory('handler', () => original, Scope.Transient)
+        .createChild()
+        .intercept('handler', handler => ({ dispose: sinon.stub(), handler }) as any)
+        .provideClass('consumer', Consumer, Scope.Transient)
+        .freeze()
+        .createScope();
+      const { handler } = injector.resolve('consumer');
+      expect(handler).not.eq(original);
+      await injector.release(handler);
+      await injector.dispose();
+      expect(original.dispose).calledOnce;
+      expect(handler.dispose).not.called;
+    });
+
+    it('should release the original value of a decorated value', async () => {
+      const original = new Handler();
+      const injector = rootInjector
+        .provideFactory('handler', () => original, Scope.Transient)
+        .provideDecorator('handler', handler => ({ dispose: sinon.stub(), handler }) as any);
+      const handler = injector.resolve('handler');
+      await injector.release(handler);
+      await injector.dispose();
+      expect(original.dispose).calledOnce;
+      expect(handler.dispose).not.called;
+    });
+
+    it('should release the resolved value of a transient async factory', async () => {
+      const handler = new Handler();
+      const injector = rootInjector.provideAsyncFactory('handler', () => Promise.resolve(handler), Scope.Transient);
+      await injector.resolveAsync('handler');
+      await injector.release(handler);
+      expect(handler.dispose).calledOnce;
+    });
+
+    it('should report the released value to the instrumentations', async () => {
+      const onDispose = sinon.stub();
+      const injector = rootInjector.instrument({ onDispose }).provideClass('handler', Handler, Scope.Transient);
+      await injector.release(injector.injectClass(Consumer).handler);
+      expect(onDispose).calledWithMatch({ kind: 'class', scope: Scope.Transient, target: Consumer, token: 'handler' });
+    });
+
+    it('should reject with a DisposeFailedError when the value fails to dispose', async () => {
+      const expectedError = new Error('expected error');
+      const injector = rootInjector.provideClass('handler', Handler, Scope.Transient);
+      const handler = injector.resolve('handler');
+      handler.dispose.rejects(expectedError);
+      const error = await rejection(injector.release(handler));
+      expect(error).instanceOf(DisposeFailedError);
+      expect(error.failures).deep.eq([{ error: expectedError, token: 'handler' }]);
+    });
+
+    it('should pass the timeout', async () => {
+      const injector = rootInjector.provideClass('handler', Handler, Scope.Transient);
+      const handler = injector.resolve('handler');
+      handler.dispose.returns(new Promise(() => { }));
+      const error = await rejection(injector.release(handler, { timeout: 1 }));
+      expect(error.failures[0].error).instanceOf(DisposeTimeoutError);
+    });
+
+    it('should reject values that it does not track', async () => {
+      const injector = rootInjector
+        .provideClass('handler', Handler, Scope.Transient)
+        .provideDecorator('handler', handler => handler)
+        .intercept('handler', handler => handler);
+      const handler = injector.injectClass(Handler);
+      const expectedMessage = 'Can\'t release a value that this injector doesn\'t keep track of. Only transient values that it (or one of its parents) created can be released.';
+      expect((await rejection(injector.release(handler))).message).eq(expectedMessage);
+      expect((await rejection(injector.release(42))).message).eq(expectedMessage);
+      expect(handler.dispose).not.called;
+    });
+
+    it('should ignore values once the injector is disposed', async () => {
+      const injector = rootInjector.provideClass('handler', Handler, Scope.Transient);
+      const handler = injector.resolve('handler');
+      await injector.dispose();
+      await injector.release(handler);
+      expect(handler.dispose).calledOnce;
+    });
+
+    it('should reject when releasing a singleton value', async () => {
+      const injector = rootInjector.provideClass('handler', Handler);
+      const handler = injector.resolve('handler');
+      const error = await rejection(injector.release(handler));
+      expect(error.message).eq('Can\'t release the value of token "handler", as it is cached with scope "singleton". Only transient values can be released.');
+      expect(handler.dispose).not.called;
+    });
+
+    it('should reject when releasing a scoped value', async () => {
+      const scope = rootInjector.provideClass('handler', Handler, Scope.Scoped).createScope();
+      const handler = scope.resolve('handler');
+      const error = await rejection(scope.release(handler));
+      expect(error.message).eq('Can\'t release the value of token "handler", as it is cached with scope "scoped". Only transient values can be released.');
+      expect(handler.dispose).not.called;
+    });
+  });
+
+  describe(rootInjector.replace.name, () => {
+    class Greeter {
+      public dispose = sinon.stub();
+      public greet() {
+        return 'hello';
+      }
+    }
+    class LoudGreeter extends Greeter {
+      public greet() {
+        return 'HELLO';
       }
-      const bazInjector = rootInjector
-        .provideClass('foo', Foo, Scope.Transient)
-        .provideFactory('bar', barFactory, Scope.Transient);
-      const baz = bazInjector.injectClass(Baz);
+    }
+    class Service {
+      public dispose = sinon.stub();
+      constructor(public readonly greeter: Greeter) { }
+      public static inject = tokens('greeter');
+    }
+    class Controller {
+      public dispose = sinon.stub();
+      constructor(public readonly service: Service) { }
+      public static inject = tokens('service');
+    }
+    function createInjector() {
+      return rootInjector
+        .provideClass('greeter', Greeter)
+        .provideClass('service', Service)
+        .provideClass('controller', Controller);
+    }
 
-      // Act
-      await bazInjector.dispose();
+    it('should create new values with the new class', async () => {
+      const injector = createInjector();
+      await injector.replace('greeter', LoudGreeter);
+      expect(injector.resolve('greeter')).instanceOf(LoudGreeter);
+    });
 
-      // Assert
-      expect(baz.bar.dispose).called;
-      expect(baz.foo.dispose).called;
+    it('should dispose the old singleton', async () => {
+      const injector = createInjector();
+      const greeter = injector.resolve('greeter');
+      await injector.replace('greeter', LoudGreeter);
+      expect(greeter.dispose).calledOnce;
+      expect(injector.describe().providers[0].cached).false;
     });
 
-    it('should dispose dependencies in correct order (child first)', async () => {
-      class Grandparent {
+    it('should rebuild the singletons that transitively depend on it', async () => {
+      const injector = createInjector();
+      const controller = injector.resolve('controller');
+      await injector.replace('greeter', LoudGreeter);
+      expect(controller.dispose).calledOnce;
+      expect(controller.service.dispose).calledOnce;
+      expect(injector.describe().providers.map(provider => provider.cached)).deep.eq([false, false, false]);
+      expect(injector.resolve('controller').service.greeter.greet()).eq('HELLO');
+      expect(injector.resolve('controller')).not.eq(controller);
+    });
+
+    it('should dispose dependents before their dependencies', async () => {
+      const injector = createInjector();
+      const controller = injector.resolve('controller');
+      await injector.replace('greeter', LoudGreeter);
+      expect(controller.dispose).calledBefore(controller.service.dispose);
+      expect(controller.service.dispose).calledBefore(controller.service.greeter.dispose);
+    });
+
+    it('should keep the singletons that do not depend on it', async () => {
+      class Clock {
         public dispose = sinon.stub();
       }
-      class Parent {
-        public dispose = sinon.stub();
+      const injector = createInjector().provideClass('clock', Clock);
+      const clock = injector.resolve('clock');
+      injector.resolve('service');
+      await injector.replace('service', Service);
+      expect(injector.resolve('clock')).eq(clock);
+      expect(clock.dispose).not.called;
+    });
+
+    it('should rebuild singletons that depend on it through a transient provider', async () => {
+      const injector = rootInjector
+        .provideClass('greeter', Greeter)
+        .provideClass('service', Service, Scope.Transient)
+        .provideClass('controller', Controller);
+      const controller = injector.resolve('controller');
+      await injector.replace('greeter', LoudGreeter);
+      expect(injector.resolve('controller')).not.eq(controller);
+      expect(controller.service.dispose).not.called;
+    });
+
+    it('should rebuild dependents in other branches of the injector', async () => {
+      const appInjector = rootInjector.provideClass('greeter', Greeter);
+      const branch = appInjector.provideClass('service', Service);
+      const service = branch.resolve('service');
+      await appInjector.replace('greeter', LoudGreeter);
+      expect(branch.resolve('service').greeter).instanceOf(LoudGreeter);
+      expect(service.dispose).calledOnce;
+    });
+
+    it('should dispose the values of other branches even when that fails', async () => {
+      const appInjector = rootInjector.provideClass('greeter', Greeter);
+      const branch = appInjector.provideClass('service', Service);
+      const service = branch.resolve('service');
+      service.dispose.rejects(new Error('expected error'));
+      await appInjector.replace('greeter', LoudGreeter);
+      expect(branch.resolve('service')).not.eq(service);
+      expect(service.dispose).calledOnce;
+    });
+
+    it('should not keep a child injector that is not disposed reachable from its parent', () => {
+      const appInjector = createInjector();
+      const requestInjector = appInjector.provideValue('request', 1).provideClass('handler', Controller);
+      requestInjector.resolve('handler');
+      const reachable = new Set<unknown>([appInjector]);
+      reachable.forEach(value => {
+        const children = value instanceof Map ? [...value.keys(), ...value.values()] : value instanceof Set ? [...value] : Object.values(value as object);
+        children.filter(child => typeof child === 'object' && child !== null).forEach(child => reachable.add(child));
+      });
+      expect(reachable.has(appInjector.resolve('service'))).true;
+      expect(reachable.has(requestInjector)).false;
+    });
+
+    it('should not dispose the values of a branch that is already disposed', async () => {
+      const appInjector = rootInjector.provideClass('greeter', Greeter);
+      const branches = [1, 2, 3].map(() => appInjector.createChild().provideClass('service', Service));
+      const services = branches.map(branch => branch.resolve('service'));
+      await Promise.all(branches.map(branch => branch.dispose()));
+      await appInjector.replace('greeter', LoudGreeter);
+      services.forEach(service => expect(service.dispose).calledOnce);
+    });
+
+    it('should replace the class of a decorated token', async () => {
+      const injector = createInjector().provideDecorator('greeter', greeter => ({ ...greeter, greet: () => `${greeter.greet()}!` }));
+      await injector.replace('greeter', LoudGreeter);
+      expect(injector.resolve('greeter').greet()).eq('HELLO!');
+    });
+
+    it('should replace the class through the other kinds of injectors', async () => {
+      const injector = createInjector().freeze().createScope().createChild().instrument({}).intercept('greeter', greeter => greeter);
+      await injector.replace('greeter', LoudGreeter);
+      expect(injector.resolve('controller').service.greeter).instanceOf(LoudGreeter);
+    });
+
+    it('should evict each dependent once', async () => {
+      class Screen {
+        constructor(public readonly controller: Controller, public readonly service: Service) { }
+        public static inject = tokens('controller', 'service');
       }
-      class Child {
-        constructor(
-          public readonly parent: Parent,
-          public readonly grandparent: Grandparent
-        ) {}
-        public static inject = tokens('parent', 'grandparent');
-        public dispose = sinon.stub();
+      const injector = createInjector().provideClass('screen', Screen);
+      const { controller } = injector.resolve('screen');
+      await injector.replace('greeter', LoudGreeter);
+      expect(controller.service.dispose).calledOnce;
+      expect(injector.resolve('screen').service.greeter).instanceOf(LoudGreeter);
+    });
+
+    it('should reject when the token is not provided with provideClass', async () => {
+      const injector = createInjector().provideValue('answer', 42);
+      const error = await rejection(injector.replace('answer', class { } as any));
+      expect(error.message).eq('Token "answer" can\'t be replaced, as it isn\'t provided with provideClass.');
+    });
+
+    it('should reject when the token is not provided', async () => {
+      const error = await rejection(createInjector().replace('unknown' as any, Greeter));
+      expect(error.message).eq('Token "unknown" can\'t be replaced, as it isn\'t provided with provideClass.');
+    });
+
+    it('should reject when the new class depends on a token that is provided later', async () => {
+      class SelfAware extends Greeter {
+        constructor(public readonly controller: Controller) {
+          super();
+        }
+        public static inject = tokens('controller');
       }
-      const bazProvider = rootInjector
-        .provideClass('grandparent', Grandparent, Scope.Transient)
-        .provideClass('parent', Parent)
-        .provideClass('child', Child);
-      const child = bazProvider.resolve('child');
-      const newGrandparent = bazProvider.resolve('grandparent');
+      const injector = createInjector();
+      const greeter = injector.resolve('greeter');
+      const error = await rejection(injector.replace('greeter', SelfAware));
+      expect(error).instanceOf(NoProviderError);
+      expect(error.message).eq('No provider found for "controller".\n  Requested by: SelfAware\n  Resolution path: greeter -> controller');
+      expect(injector.resolve('greeter')).eq(greeter);
+    });
 
-      // Act
-      await bazProvider.dispose();
+    it('should allow the new class to depend on magic, optional and lazy tokens', async () => {
+      class Flexible extends Greeter {
+        constructor(public readonly target: Function | undefined, public readonly clock: undefined, public readonly getController: () => Controller) {
+          super();
+        }
+        public static inject = tokens(TARGET_TOKEN, optional('clock'), lazy('controller'));
+      }
+      const injector = createInjector();
+      await injector.replace('greeter', Flexible as any);
+      expect(injector.resolve('greeter')).instanceOf(Flexible);
+    });
 
-      // Assert
-      expect(child.parent.dispose).calledBefore(child.grandparent.dispose);
-      expect(child.parent.dispose).calledBefore(newGrandparent.dispose);
-      expect(child.dispose).calledBefore(child.parent.dispose);
+    it('should reject after the injector is disposed', async () => {
+      const injector = createInjector();
+      await injector.dispose();
+      expect(await rejection(injector.replace('greeter', LoudGreeter))).instanceOf(InjectorDisposedError);
+    });
+  });
+
+  describe(rootInjector.validate.name, () => {
+    class Database { }
+    class Repository {
+      constructor(public readonly db: Database) { }
+      public static inject = tokens('db');
+    }
+    class App {
+      constructor(public readonly repository: Repository, public readonly config: unknown) { }
+      public static inject = tokens('repository', 'config');
+    }
+
+    function validationError(injector: Injector<any>, ...injectables: Function[]): ValidationError {
+      try {
+        injector.validate(...injectables);
+      } catch (error) {
+        return error;
+      }
+      expect.fail('Expected validate to throw a ValidationError');
+      throw new Error();
+    }
+
+    it('should pass when every injected token is provided', () => {
+      const injector = rootInjector
+        .provideClass('db', Database)
+        .provideClass('repository', Repository)
+        .provideValue('config', {});
+      expect(() => injector.validate(App)).not.throws();
     });
 
-    it('should not dispose injected classes or functions', async () => {
+    it('should report every unresolved token with the provider that injects it', () => {
+      const injector = (rootInjector as Injector<any>)
+        .provideClass('repository', Repository)
+        .provideClass('app', App);
+      const error = validationError(injector);
+      expect(error).instanceOf(ValidationError);
+      expect(error.unresolved).deep.eq([
+        { requestedBy: 'repository', token: 'db' },
+        { requestedBy: 'app', token: 'config' }
+      ]);
+      expect(error.message).eq('Found 2 unresolved token(s).\n  db: requested by "repository"\n  config: requested by "app"');
+    });
+
+    it('should report tokens that are only provided after the provider that injects them', () => {
+      const injector = (rootInjector as Injector<any>)
+        .provideClass('repository', Repository)
+        .provideClass('db', Database);
+      expect(validationError(injector).unresolved).deep.eq([{ requestedBy: 'repository', token: 'db' }]);
+    });
+
+    it('should report the unresolved tokens of the injectables', () => {
+      function createApp(repository: Repository, config: unknown) {
+        return new App(repository, config);
+      }
+      createApp.inject = tokens('repository', 'config');
+      const injector = (rootInjector as Injector<any>).provideClass('db', Database);
+      expect(validationError(injector, App, createApp).unresolved).deep.eq([
+        { requestedBy: App, token: 'repository' },
+        { requestedBy: App, token: 'config' },
+        { requestedBy: createApp, token: 'repository' },
+        { requestedBy: createApp, token: 'config' }
+      ]);
+    });
+
+    it('should ignore optional and magic tokens, but not lazy tokens', () => {
       class Foo {
-        public dispose = sinon.stub();
+        constructor(public readonly injector: unknown, public readonly target: unknown, public readonly bar: unknown, public readonly getBaz: unknown) { }
+        public static inject = [INJECTOR_TOKEN, TARGET_TOKEN, optional('bar'), lazy('baz')] as const;
       }
-      function barFactory(): Disposable {
-        return { dispose: sinon.stub() };
+      expect(validationError(rootInjector, Foo).unresolved).deep.eq([{ requestedBy: Foo, token: 'baz' }]);
+    });
+
+    it('should ignore injectables without dependencies', () => {
+      expect(() => rootInjector.validate(class { }, () => 42)).not.throws();
+    });
+
+    it('should not create any values', () => {
+      const constructed = sinon.stub();
+      class Spy {
+        constructor() {
+          constructed();
+        }
       }
-      const foo = rootInjector.injectClass(Foo);
-      const bar = rootInjector.injectFunction(barFactory);
-      await rootInjector.dispose();
-      expect(foo.dispose).not.called;
-      expect(bar.dispose).not.called;
+      rootInjector.provideClass('db', Spy).provideClass('repository', Repository).validate(Repository);
+      expect(constructed).not.called;
     });
 
-    it('should not dispose providedValues', async () => {
-      const disposable: Disposable = { dispose: sinon.stub() };
-      const disposableProvider = rootInjector.provideValue(
-        'disposable',
-        disposable
-      );
-      disposableProvider.resolve('disposable');
-      await disposableProvider.dispose();
-      expect(disposable.dispose).not.called;
+    it('should validate the providers of all kinds of injectors', () => {
+      const injector = (rootInjector as Injector<any>)
+        .provideClass('db', Database)
+        .createScope()
+        .createChild()
+        .instrument({})
+        .intercept('db', db => db)
+        .freeze()
+        .provideDecorator('logger', logger => logger)
+        .provideMulti('plugins', Repository);
+      expect(validationError(injector).unresolved).deep.eq([{ requestedBy: 'logger', token: 'logger' }]);
     });
+  });
 
-    it('should not break on non-disposable dependencies', async () => {
-      class Foo {
-        public dispose = true;
+  describe('Scope.Untracked', () => {
+    class Handler {
+      public dispose = sinon.stub();
+      public onInit = sinon.stub();
+    }
+
+    it('should create a new value every time', () => {
+      const injector = rootInjector.provideClass('handler', Handler, Scope.Untracked);
+      expect(injector.resolve('handler')).not.eq(injector.resolve('handler'));
+    });
+
+    it('should not dispose the values', async () => {
+      const injector = rootInjector.provideClass('handler', Handler, Scope.Untracked);
+      const handler = injector.resolve('handler');
+      await rejection(injector.release(handler));
+      await injector.dispose();
+      expect(handler.dispose).not.called;
+    });
+
+    it('should still initialize the values', () => {
+      const injector = rootInjector.provideFactory('handler', () => new Handler(), Scope.Untracked);
+      expect(injector.resolve('handler').onInit).called;
+    });
+
+    it('should be described as untracked', () => {
+      const injector = rootInjector.provideClass('handler', Handler, Scope.Untracked);
+      expect(injector.describe().providers[0].scope).eq(Scope.Untracked);
+    });
+  });
+
+  describe('MultiProvider', () => {
+    interface Plugin {
+      name: string;
+    }
+    const PLUGINS = createToken<Plugin[]>()('plugins');
+    class FooPlugin implements Plugin {
+      public name = 'foo';
+      public dispose = sinon.stub();
+    }
+    class BarPlugin implements Plugin {
+      constructor(public readonly name: string) { }
+      public static inject = tokens('barName');
+    }
+
+    it('should collect all contributions in the order in which they were provided', () => {
+      const actual = rootInjector
+        .provideMulti(PLUGINS, FooPlugin)
+        .provideValue('barName', 'bar')
+        .provideMulti(PLUGINS, BarPlugin)
+        .resolve(PLUGINS);
+      expect(actual.map(plugin => plugin.name)).deep.eq(['foo', 'bar']);
+      expect(actual[0]).instanceOf(FooPlugin);
+      expect(actual[1]).instanceOf(BarPlugin);
+    });
+
+    it('should cache singleton contributions', () => {
+      const sut = rootInjector
+        .provideMulti('plugins', FooPlugin)
+        .provideMulti('plugins', FooPlugin, Scope.Transient);
+      const [singleton1, transient1] = sut.resolve('plugins');
+      const [singleton2, transient2] = sut.resolve('plugins');
+      expect(singleton1).eq(singleton2);
+      expect(transient1).not.eq(transient2);
+    });
+
+    it('should be able to inject the contributions', () => {
+      class PluginHost {
+        constructor(public readonly plugins: Plugin[]) { }
+        public static inject = tokens(PLUGINS);
       }
-      function barFactory(): { dispose: string } {
-        return { dispose: 'no-fn' };
+      const actual = rootInjector
+        .provideMulti(PLUGINS, FooPlugin)
+        .injectClass(PluginHost);
+      expect(actual.plugins).lengthOf(1);
+    });
+
+    it('should resolve other tokens from its parent', () => {
+      const actual = rootInjector
+        .provideValue('barName', 'bar')
+        .provideMulti(PLUGINS, FooPlugin)
+        .resolve('barName');
+      expect(actual).eq('bar');
+    });
+
+    it('should allow contributions in a scope', () => {
+      const actual = rootInjector
+        .provideMulti(PLUGINS, FooPlugin)
+        .createScope()
+        .provideMulti(PLUGINS, FooPlugin)
+        .resolve(PLUGINS);
+      expect(actual).lengthOf(2);
+    });
+
+    it('should not allow to contribute to a token that is provided by another provider', () => {
+      const injector = rootInjector.provideValue('plugins', [] as Plugin[]);
+      expect(() => injector.provideMulti('plugins', FooPlugin))
+        .throws('Token: plugins is already used on this injector.');
+    });
+
+    it('should not allow to provide a token that is multi provided', () => {
+      const injector = rootInjector.provideMulti('plugins', FooPlugin);
+      expect(() => injector.provideClass('plugins', FooPlugin as any))
+        .throws('Token: plugins is already used on this injector.');
+    });
+
+    it('should dispose the contributions', async () => {
+      const sut = rootInjector
+        .provideMulti('plugins', FooPlugin)
+        .provideMulti('plugins', FooPlugin);
+      const plugins = sut.resolve('plugins');
+      await sut.dispose();
+      expect(plugins[0].dispose).called;
+      expect(plugins[1].dispose).called;
+    });
+
+    it('should be described as multi', () => {
+      const [actual] = rootInjector.provideMulti('plugins', FooPlugin).describe().providers;
+      expect(actual.kind).eq('multi');
+    });
+  });
+
+  describe('typed tokens', () => {
+    interface Logger {
+      name: string;
+    }
+
+    it('should be able to provide and resolve a typed token', () => {
+      const LOGGER = createToken<Logger>()('logger');
+      const expectedLogger = { name: 'expected' };
+      const actual = rootInjector.provideValue(LOGGER, expectedLogger).resolve(LOGGER);
+      expect(actual).eq(expectedLogger);
+    });
+
+    it('should be able to inject typed tokens', () => {
+      const LOGGER = createToken<Logger>()('logger');
+      class Foo {
+        constructor(public readonly log: Logger, public readonly bar: string) {}
+        public static inject = tokens(LOGGER, 'bar');
       }
-      class Baz {
-        constructor(
-          public readonly bar: { dispose: string },
-          public readonly foo: Foo
-        ) {}
-        public static inject = tokens('bar', 'foo');
+      function loggerFactory(): Logger {
+        return { name: 'factory' };
       }
-      const bazInjector = rootInjector
-        .provideClass('foo', Foo)
-        .provideFactory('bar', barFactory);
-      const baz = bazInjector.injectClass(Baz);
+      const actual = rootInjector
+        .provideFactory(LOGGER, loggerFactory)
+        .provideValue('bar', 'baz')
+        .injectClass(Foo);
+      expect(actual.log.name).eq('factory');
+      expect(actual.bar).eq('baz');
+    });
 
-      // Act
-      await bazInjector.dispose();
+    it('should not collide with tokens with the same description', () => {
+      const firstLogger = createToken<Logger>()('logger');
+      const secondLogger = createToken<Logger>()('logger');
+      const sut = rootInjector
+        .provideValue('logger', { name: 'string' })
+        .provideValue(firstLogger, { name: 'first' })
+        .provideValue(secondLogger, { name: 'second' });
+      expect(sut.resolve('logger').name).eq('string');
+      expect(sut.resolve(firstLogger).name).eq('first');
+      expect(sut.resolve(secondLogger).name).eq('second');
+    });
 
-      // Assert
-      expect(baz.bar.dispose).eq('no-fn');
-      expect(baz.foo.dispose).eq(true);
+    it('should not be able to provide the same typed token twice', () => {
+      const LOGGER = createToken<Logger>()('logger');
+      expect(() => rootInjector
+        .provideValue(LOGGER, { name: 'first' })
+        .provideValue(LOGGER, { name: 'second' })
+      ).throws('Token: Symbol(logger) is already used on this injector.');
     });
 
-    it('should not dispose dependencies twice', async () => {
-      const fooProvider = rootInjector.provideClass(
-        'foo',
-        class Foo implements Disposable {
-          public dispose = sinon.stub();
-        }
-      );
-      const foo = fooProvider.resolve('foo');
-      await fooProvider.dispose();
-      await fooProvider.dispose();
-      expect(foo.dispose).calledOnce;
+    it('should use the description when no provider was found', () => {
+      const LOGGER = createToken<Logger>()('logger');
+      class Foo {
+        constructor(public readonly log: Logger) {}
+        public static inject = tokens(LOGGER);
+      }
+      expect(() => rootInjector.injectClass(Foo as any)).throws('No provider found for "Symbol(logger)".');
     });
+  });
 
-    it('should await dispose()', async () => {
-      // Arrange
-      const fooStub = sinon.stub();
+  describe('injectable', () => {
+    it('should declare the tokens of a decorated class', () => {
+      @injectable('foo', 'bar')
       class Foo {
-        public task = new Task();
-        public dispose() {
-          fooStub();
-          return this.task.promise;
-        }
+        declare public static inject: ['foo', 'bar'];
+        constructor(public readonly foo: string, public readonly bar: number) { }
       }
-      const fooProvider = rootInjector.provideClass('foo', Foo);
-      const foo = fooProvider.resolve('foo');
-      let resolved = false;
+      const actual = rootInjector.provideValue('foo', 'foo').provideValue('bar', 42).injectClass(Foo);
+      expect(Foo.inject).deep.eq(['foo', 'bar']);
+      expect(actual.foo).eq('foo');
+      expect(actual.bar).eq(42);
+    });
 
-      // Act
-      const promise = fooProvider.dispose().then(() => {
-        resolved = true;
+    it('should declare the tokens of a function', () => {
+      const fn = injectable('foo', TARGET_TOKEN)((foo: string, target: Function | undefined) => ({ foo, target }));
+      const actual = rootInjector.provideValue('foo', 'foo').provideFactory('baz', fn).resolve('baz');
+      expect(fn.inject).deep.eq(['foo', TARGET_TOKEN]);
+      expect(actual).deep.eq({ foo: 'foo', target: undefined });
+    });
+
+    it('should return the target itself', () => {
+      class Foo { }
+      expect(injectable()(Foo)).eq(Foo);
+    });
+  });
+
+  describe('describe', () => {
+    class Logger { }
+    class HttpClient {
+      constructor(public readonly log: Logger, public readonly target: Function | undefined, public readonly injector: Injector<{}>) { }
+      public static inject = tokens('logger', TARGET_TOKEN, INJECTOR_TOKEN);
+    }
+    function createService(_http: HttpClient, _log: Logger | undefined, _config: () => string) {
+      return {};
+    }
+    createService.inject = tokens('http', optional('logger'), lazy('config'));
+    function createInjector() {
+      return rootInjector
+        .provideValue('config', 'foo')
+        .provideClass('logger', Logger, Scope.Transient)
+        .provideClass('http', HttpClient)
+        .provideFactory('service', createService, Scope.Scoped)
+        .provideAsyncFactory('settings', async () => 42)
+        .provideFactory('now', () => new Date(), Scope.Transient);
+    }
+
+    it('should be empty for the root injector', () => {
+      expect(rootInjector.describe()).deep.eq({ providers: [] });
+    });
+
+    it('should describe all providers in order of provisioning', () => {
+      expect(createInjector().describe()).deep.eq({
+        providers: [
+          { token: 'config', kind: 'value', scope: undefined, dependencies: [], cached: true },
+          { token: 'logger', kind: 'class', scope: Scope.Transient, dependencies: [], cached: false },
+          { token: 'http', kind: 'class', scope: Scope.Singleton, dependencies: [{ token: 'logger', kind: 'required' }], cached: false },
+          {
+            cached: false,
+            dependencies: [{ token: 'http', kind: 'required' }, { token: 'logger', kind: 'optional' }, { token: 'config', kind: 'lazy' }],
+            kind: 'factory',
+            scope: Scope.Scoped,
+            token: 'service'
+          },
+          { token: 'settings', kind: 'asyncFactory', scope: Scope.Singleton, dependencies: [], cached: false },
+          { token: 'now', kind: 'factory', scope: Scope.Transient, dependencies: [], cached: false }
+        ]
       });
-      await tick(); // make sure it has a chance to fail.
+    });
 
-      // Assert
-      expect(fooStub).called;
-      expect(resolved).false;
-      foo.task.resolve();
-      await promise;
-      expect(resolved).true;
+    it('should report cached singletons', () => {
+      const injector = createInjector();
+      injector.resolve('http');
+      const [, logger, http] = injector.describe().providers;
+      expect(logger.cached).false;
+      expect(http.cached).true;
+    });
+
+    it('should describe the providers of the parent for a scope', () => {
+      const injector = createInjector();
+      expect(injector.createScope().describe()).deep.eq(injector.describe());
     });
   });
 
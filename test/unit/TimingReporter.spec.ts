@@ -0,0 +1,129 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import { TimingReporter } from '../../src/TimingReporter';
+import { InstantiateEvent } from '../../src/api/Instrumentation';
+import { Scope } from '../../src/api/Scope';
+import { rootInjector } from '../../src/InjectorImpl';
+import { tokens, createToken } from '../../src/tokens';
+
+describe(TimingReporter.name, () => {
+  function event(token: string, startTime: number, duration: number, overrides?: Partial<InstantiateEvent>): InstantiateEvent {
+    return { duration, kind: 'class', scope: Scope.Singleton, startTime, target: undefined, token, ...overrides };
+  }
+
+  describe('report', () => {
+    it('should report that no values were created', () => {
+      expect(new TimingReporter().report()).eq('No values were created.');
+    });
+
+    it('should report the slowest providers and a timeline', () => {
+      const sut = new TimingReporter();
+      sut.onInstantiate(event('config', 100, 1, { kind: 'factory', scope: Scope.Transient }));
+      sut.onInstantiate(event('logger', 102, 3));
+      sut.onInstantiate(event('app', 100, 10));
+      sut.onInstantiate(event('cache', 120, 2));
+      expect(sut.report()).eq([
+        'Slowest providers:',
+        '  6.00 ms  app (class, singleton), 1 value',
+        '  3.00 ms  logger (class, singleton), 1 value',
+        '  2.00 ms  cache (class, singleton), 1 value',
+        '  1.00 ms  config (factory, transient), 1 value',
+        'Instantiation timeline:',
+        '  +0.00 ms  app (class, singleton) took 10.00 ms',
+        '    +0.00 ms  config (factory, transient) took 1.00 ms',
+        '    +2.00 ms  logger (class, singleton) took 3.00 ms',
+        '  +20.00 ms  cache (class, singleton) took 2.00 ms'
+      ].join('\n'));
+    });
+
+    it('should report only the top slowest providers', () => {
+      const sut = new TimingReporter();
+      sut.onInstantiate(event('foo', 0, 1));
+      sut.onInstantiate(event('bar', 1, 2, { scope: undefined }));
+      expect(sut.report(1).split('\n').slice(0, 3)).deep.eq([
+        'Slowest providers:',
+        '  2.00 ms  bar (class), 1 value',
+        'Instantiation timeline:'
+      ]);
+    });
+
+    it('should add up the time of all values of a provider', () => {
+      const sut = new TimingReporter();
+      sut.onInstantiate(event('handler', 0, 2, { scope: Scope.Transient }));
+      sut.onInstantiate(event('handler', 5, 3, { scope: Scope.Transient }));
+      sut.onInstantiate(event('db', 10, 4));
+      expect(sut.report().split('\n').slice(0, 3)).deep.eq([
+        'Slowest providers:',
+        '  5.00 ms  handler (class, transient), 2 values',
+        '  4.00 ms  db (class, singleton), 1 value'
+      ]);
+    });
+
+    it('should report tokens with the same description separately', () => {
+      const sut = new TimingReporter();
+      sut.onInstantiate(event('logger', 0, 2, { token: createToken<string>()('logger') }));
+      sut.onInstantiate(event('logger', 5, 3, { token: createToken<string>()('logger') }));
+      expect(sut.report().split('\n').slice(0, 3)).deep.eq([
+        'Slowest providers:',
+        '  3.00 ms  Symbol(logger) (class, singleton), 1 value',
+        '  2.00 ms  Symbol(logger) (class, singleton), 1 value'
+      ]);
+    });
+
+    it('should not count the time it took to create the dependencies of a value', () => {
+      const sut = new TimingReporter();
+      sut.onInstantiate(event('db', 1, 5));
+      sut.onInstantiate(event('config', 7, 1));
+      sut.onInstantiate(event('app', 0, 10));
+      expect(sut.report().split('\n').slice(0, 4)).deep.eq([
+        'Slowest providers:',
+        '  5.00 ms  db (class, singleton), 1 value',
+        '  4.00 ms  app (class, singleton), 1 value',
+        '  1.00 ms  config (class, singleton), 1 value'
+      ]);
+    });
+
+    it('should only record the most recent values', () => {
+      const sut = new TimingReporter(2);
+      sut.onInstantiate(event('foo', 0, 1));
+      sut.onInstantiate(event('bar', 1, 1));
+      sut.onInstantiate(event('baz', 2, 1));
+      expect(sut.report()).not.contains('foo');
+      expect(sut.report()).contains('bar');
+      expect(sut.report()).contains('baz');
+    });
+
+    it('should report the values created by an instrumented injector', () => {
+      class Foo { }
+      class Bar {
+        constructor(public readonly foo: Foo) { }
+        public static inject = tokens('foo');
+      }
+      const sut = new TimingReporter();
+      rootInjector.instrument(sut).provideClass('foo', Foo).provideClass('bar', Bar).resolve('bar');
+      const timeline = sut.report().split('\n').slice(4);
+      expect(timeline[0]).matches(/^  \+0\.00 ms  bar \(class, singleton\) took \d+\.\d\d ms$/);
+      expect(timeline[1]).matches(/^    \+\d+\.\d\d ms  foo \(class, singleton\) took \d+\.\d\d ms$/);
+    });
+  });
+
+  describe('reset', () => {
+    it('should forget the recorded values', () => {
+      const sut = new TimingReporter();
+      sut.onInstantiate(event('foo', 0, 1));
+      sut.reset();
+      expect(sut.report()).eq('No values were created.');
+    });
+  });
+
+  describe('print', () => {
+    it('should log the report to the console', () => {
+      const log = sinon.stub(console, 'log');
+      const sut = new TimingReporter();
+      sut.onInstantiate(event('foo', 0, 1));
+      sut.onInstantiate(event('bar', 1, 2));
+      sut.print(1);
+      expect(log).calledWith(sut.report(1));
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { expect } from 'chai';
+import { Exception } from '../../src/Exception';
+import { NoProviderError, InjectorDisposedError, TokenAlreadyProvidedError, InjectionFailedError, CircularDependencyError, OutOfScopeError, ScopeMismatchError, DisposeFailedError, DisposeTimeoutError, ValidationError } from '../../src/errors';
+import { createToken } from '../../src/tokens';
+
+describe('errors', () => {
+  class Foo {}
+
+  describe(NoProviderError.name, () => {
+    it('should be an Exception', () => {
+      expect(new NoProviderError('foo', undefined, ['foo'])).instanceOf(Exception);
+    });
+
+    it('should only name the token when resolved directly', () => {
+      const sut = new NoProviderError('foo', undefined, ['foo']);
+      expect(sut.message).eq('No provider found for "foo".');
+    });
+
+    it('should name the target and the resolution path', () => {
+      const sut = new NoProviderError('foo', Foo, ['bar', 'baz', 'foo']);
+      expect(sut.message).eq('No provider found for "foo".\n  Requested by: Foo\n  Resolution path: bar -> baz -> foo');
+      expect(sut.token).eq('foo');
+      expect(sut.target).eq(Foo);
+      expect(sut.path).deep.eq(['bar', 'baz', 'foo']);
+    });
+
+    it('should describe typed tokens', () => {
+      const fooToken = createToken<string>()('foo');
+      const sut = new NoProviderError(fooToken, undefined, ['bar', fooToken]);
+      expect(sut.message).eq('No provider found for "Symbol(foo)".\n  Resolution path: bar -> Symbol(foo)');
+    });
+  });
+
+  describe(InjectorDisposedError.name, () => {
+    it('should name the token when resolving', () => {
+      const sut = new InjectorDisposedError('foo', undefined, ['foo']);
+      expect(sut.message).eq('Injector is already disposed. Please don\'t use it anymore. Tried to resolve "foo".');
+      expect(sut.token).eq('foo');
+    });
+
+    it('should name the target when injecting', () => {
+      const sut = new InjectorDisposedError(undefined, Foo, []);
+      expect(sut.message).eq('Injector is already disposed. Please don\'t use it anymore. Tried to inject "Foo".');
+      expect(sut.target).eq(Foo);
+    });
+
+    it('should name the resolution path', () => {
+      expect(new InjectorDisposedError('foo', undefined, ['bar', 'foo']).message)
+        .eq('Injector is already disposed. Please don\'t use it anymore. Tried to resolve "foo".\n  Resolution path: bar -> foo');
+      const sut = new InjectorDisposedError(undefined, Foo, ['bar']);
+      expect(sut.message).eq('Injector is already disposed. Please don\'t use it anymore. Tried to inject "Foo".\n  Resolution path: bar');
+      expect(sut.path).deep.eq(['bar']);
+    });
+  });
+
+  describe(TokenAlreadyProvidedError.name, () => {
+    it('should name the token', () => {
+      const fooToken = createToken<string>()('foo');
+      const sut = new TokenAlreadyProvidedError(fooToken);
+      expect(sut.message).eq('Token: Symbol(foo) is already used on this injector.');
+      expect(sut.token).eq(fooToken);
+    });
+  });
+
+  describe(InjectionFailedError.name, () => {
+    it('should keep the cause', () => {
+      const cause = new Error('expected error');
+      const sut = new InjectionFailedError(Foo, undefined, [], cause);
+      expect(sut.cause).eq(cause);
+      expect(sut.message).eq('Could not inject "Foo".\n  Cause: expected error');
+    });
+
+    it('should name the resolution path', () => {
+      const sut = new InjectionFailedError(Foo, 'foo', ['bar', 'foo'], new Error('expected error'));
+      expect(sut.message).eq('Could not inject "Foo".\n  Resolution path: bar -> foo\n  Cause: expected error');
+      expect(sut.token).eq('foo');
+      expect(sut.path).deep.eq(['bar', 'foo']);
+    });
+  });
+
+  describe(OutOfScopeError.name, () => {
+    it('should name the token', () => {
+      const sut = new OutOfScopeError('foo', ['foo']);
+      expect(sut.message).eq('Token "foo" is provided with Scope.Scoped, so it can only be resolved in a scope. Use "createScope()" to create one.');
+      expect(sut.token).eq('foo');
+    });
+
+    it('should name the resolution path', () => {
+      const sut = new OutOfScopeError('foo', ['bar', 'foo']);
+      expect(sut.message).eq('Token "foo" is provided with Scope.Scoped, so it can only be resolved in a scope. Use "createScope()" to create one.\n  Resolution path: bar -> foo');
+      expect(sut.path).deep.eq(['bar', 'foo']);
+    });
+  });
+
+  describe(ScopeMismatchError.name, () => {
+    it('should name the token, its dependent and the resolution path', () => {
+      const sut = new ScopeMismatchError('foo', 'bar', ['bar', 'foo']);
+      expect(sut.message).eq('Token "foo" is provided with Scope.Scoped, so it can\'t be injected into "bar", which is a Scope.Singleton that outlives the scope.\n  Resolution path: bar -> foo');
+      expect(sut.token).eq('foo');
+      expect(sut.dependent).eq('bar');
+      expect(sut.path).deep.eq(['bar', 'foo']);
+    });
+  });
+
+  describe(CircularDependencyError.name, () => {
+    it('should name the cycle', () => {
+      const sut = new CircularDependencyError(['foo', 'bar', 'foo']);
+      expect(sut.message).eq('Circular dependency detected: foo -> bar -> foo');
+    });
+  });
+
+  describe(DisposeFailedError.name, () => {
+    it('should list each failing token', () => {
+      const failures = [
+        { token: 'foo', error: new Error('foo error') },
+        { token: createToken()('bar'), error: 'bar error' }
+      ];
+      const sut = new DisposeFailedError(failures);
+      expect(sut.message).eq('Could not dispose 2 value(s).\n  foo: foo error\n  Symbol(bar): bar error');
+      expect(sut.failures).eq(failures);
+    });
+  });
+
+  describe(DisposeTimeoutError.name, () => {
+    it('should name the token and the timeout', () => {
+      const sut = new DisposeTimeoutError('foo', 42);
+      expect(sut.message).eq('Disposing "foo" timed out after 42 ms.');
+      expect(sut.token).eq('foo');
+      expect(sut.timeout).eq(42);
+    });
+  });
+
+  describe(ValidationError.name, () => {
+    it('should list each unresolved token with the provider or injectable that requested it', () => {
+      const unresolved = [
+        { requestedBy: 'foo', token: 'bar' },
+        { requestedBy: Foo, token: createToken()('baz') }
+      ];
+      const sut = new ValidationError(unresolved);
+      expect(sut.message).eq('Found 2 unresolved token(s).\n  bar: requested by "foo"\n  Symbol(baz): requested by Foo');
+      expect(sut.unresolved).eq(unresolved);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { expect } from 'chai';
+import { toDot, toMermaid } from '../../src/graph';
+import { InjectorGraph } from '../../src/api/InjectorGraph';
+import { Scope } from '../../src/api/Scope';
+import { createToken } from '../../src/tokens';
+
+describe('graph', () => {
+  const logger = createToken<{}>()('logger');
+  const graph: InjectorGraph = {
+    providers: [
+      { token: 'config', kind: 'value', scope: undefined, dependencies: [], cached: true },
+      { token: logger, kind: 'class', scope: Scope.Singleton, dependencies: [{ token: 'config', kind: 'required' }], cached: true },
+      {
+        cached: false,
+        dependencies: [{ token: logger, kind: 'required' }, { token: 'config', kind: 'lazy' }, { token: 'cache', kind: 'optional' }],
+        kind: 'factory',
+        scope: Scope.Transient,
+        token: 'say "hi"'
+      }
+    ]
+  };
+
+  describe(toDot.name, () => {
+    it('should render nodes and edges', () => {
+      expect(toDot(graph)).eq([
+        'digraph injector {',
+        '  n0 [label="config\\nvalue"];',
+        '  n1 [label="Symbol(logger)\\nclass, singleton (cached)"];',
+        '  n2 [label="say \\"hi\\"\\nfactory, transient"];',
+        '  n1 -> n0;',
+        '  n2 -> n1;',
+        '  n2 -> n0 [style=dashed, label="lazy"];',
+        '}'
+      ].join('\n'));
+    });
+
+    it('should render an empty graph', () => {
+      expect(toDot({ providers: [] })).eq('digraph injector {\n}');
+    });
+  });
+
+  describe(toMermaid.name, () => {
+    it('should render nodes and edges', () => {
+      expect(toMermaid(graph)).eq([
+        'graph TD',
+        '  n0["config<br/>value"]',
+        '  n1["Symbol(logger)<br/>class, singleton (cached)"]',
+        '  n2["say #quot;hi#quot;<br/>factory, transient"]',
+        '  n1 --> n0',
+        '  n2 --> n1',
+        '  n2 -.->|lazy| n0'
+      ].join('\n'));
+    });
+
+    it('should point to all contributions of a multi provided token', () => {
+      const actual = toMermaid({
+        providers: [
+          { token: 'plugins', kind: 'multi', scope: Scope.Singleton, dependencies: [], cached: false },
+          { token: 'plugins', kind: 'multi', scope: Scope.Singleton, dependencies: [], cached: false },
+          { token: 'host', kind: 'class', scope: Scope.Singleton, dependencies: [{ token: 'plugins', kind: 'required' }], cached: false }
+        ]
+      });
+      expect(actual).contains('  n2 --> n0\n  n2 --> n1');
+    });
+
+    it('should only point to providers that were provided earlier', () => {
+      const actual = toMermaid({
+        providers: [
+          { token: 'a', kind: 'class', scope: Scope.Singleton, dependencies: [{ token: 'b', kind: 'optional' }], cached: false },
+          { token: 'b', kind: 'value', scope: undefined, dependencies: [], cached: true }
+        ]
+      });
+      expect(actual).not.contains('-->');
+      expect(actual).not.contains('-.->');
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import { createModule } from '../../src/module';
+import { rootInjector } from '../../src/InjectorImpl';
+import { tokens } from '../../src/tokens';
+
+describe('module', () => {
+  class Config {
+    public readonly url = 'db://localhost';
+  }
+  class Db {
+    constructor(public readonly config: Config) { }
+    public static inject = tokens('config');
+  }
+  class Repository {
+    constructor(public readonly db: Db) { }
+    public static inject = tokens('db');
+  }
+
+  describe(createModule.name, () => {
+    it('should configure the injector it is applied to', () => {
+      const configure = sinon.stub().returnsArg(0);
+      const injector = rootInjector.provideValue('config', new Config());
+      const actual = injector.use(createModule<{ config: Config }>()(configure));
+      expect(configure).calledWith(injector);
+      expect(actual).eq(injector);
+    });
+  });
+
+  describe('use', () => {
+    it('should provide the values of the module', () => {
+      const config = new Config();
+      const dbModule = createModule<{ config: Config }>()(injector => injector.provideClass('db', Db));
+      const actual = rootInjector.provideValue('config', config).use(dbModule).resolve('db');
+      expect(actual).instanceOf(Db);
+      expect(actual.config).eq(config);
+    });
+
+    it('should be able to use modules within modules', () => {
+      const dbModule = createModule<{ config: Config }>()(injector => injector.provideClass('db', Db));
+      const repositoryModule = createModule<{ config: Config }>()(injector => injector.use(dbModule).provideClass('repository', Repository));
+      const injector = rootInjector.provideValue('config', new Config()).use(repositoryModule);
+      expect(injector.resolve('repository').db).eq(injector.resolve('db'));
+    });
+
+    it('should be able to apply a module to different injectors', () => {
+      const dbModule = createModule<{ config: Config }>()(injector => injector.provideClass('db', Db));
+      const first = rootInjector.provideValue('config', new Config()).use(dbModule);
+      const second = rootInjector.provideValue('config', new Config()).use(dbModule);
+      expect(first.resolve('db')).not.eq(second.resolve('db'));
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { expect } from 'chai';
+import { createTestInjector } from '../../src/testing';
+import { tokens, createToken, optional, lazy } from '../../src/tokens';
+import { TARGET_TOKEN, INJECTOR_TOKEN } from '../../src/api/InjectionToken';
+import { Injector } from '../../src/api/Injector';
+
+describe('testing', () => {
+  interface Logger {
+    info(message: string): void;
+  }
+  const LOGGER = createToken<Logger>()('logger');
+
+  class HttpClient {
+    constructor(
+      public readonly log: Logger,
+      public readonly baseUrl: string,
+      public readonly cache: Map<string, string> | undefined,
+      public readonly timeout: () => number,
+      public readonly target: Function | undefined,
+      public readonly injector: Injector<{}>) { }
+    public static inject = tokens(LOGGER, 'baseUrl', optional('cache'), lazy('timeout'), TARGET_TOKEN, INJECTOR_TOKEN);
+
+    public get(url: string) {
+      this.log.info(`GET ${this.baseUrl}${url}`);
+      return this.timeout();
+    }
+  }
+
+  describe(createTestInjector.name, () => {
+    it('should provide a stub for each token', () => {
+      const actual = createTestInjector(HttpClient).create();
+      expect(actual).instanceOf(HttpClient);
+      expect(actual.log).a('function');
+      expect(actual.baseUrl).a('function');
+      expect(actual.cache).a('function');
+      expect(actual.timeout()).a('function');
+    });
+
+    it('should provide the magic tokens', () => {
+      const actual = createTestInjector(HttpClient).create();
+      expect(actual.target).undefined;
+      expect(actual.injector).ok;
+    });
+
+    it('should provide stubs that do nothing', () => {
+      const log = createTestInjector(HttpClient).resolve(LOGGER);
+      expect(log.info('foo')).undefined;
+    });
+
+    it('should provide the same stub members every time', () => {
+      const log = createTestInjector(HttpClient).resolve(LOGGER);
+      expect(log.info).eq(log.info);
+    });
+
+    it('should not provide stubs that look like promises or have well known symbols', async () => {
+      const log: any = createTestInjector(HttpClient).resolve(LOGGER);
+      expect(log.then).undefined;
+      expect(log[Symbol.iterator]).undefined;
+      expect(await log).eq(log);
+    });
+  });
+
+  describe('TestInjector', () => {
+    it('should be able to override a stub', () => {
+      const messages: string[] = [];
+      const actual = createTestInjector(HttpClient)
+        .override(LOGGER, { info: message => messages.push(message) })
+        .override('baseUrl', 'http://localhost')
+        .override('timeout', 42)
+        .create();
+      expect(actual.get('/foo')).eq(42);
+      expect(messages).deep.eq(['GET http://localhost/foo']);
+    });
+
+    it('should not change the original test injector when overriding', () => {
+      const original = createTestInjector(HttpClient);
+      original.override('baseUrl', 'http://localhost');
+      expect(original.resolve('baseUrl')).a('function');
+    });
+
+    it('should be able to override an optional token with undefined', () => {
+      const actual = createTestInjector(HttpClient).override('cache', undefined).create();
+      expect(actual.cache).undefined;
+    });
+
+    it('should throw when overriding a token that is not injected', () => {
+      expect(() => createTestInjector(HttpClient).override('foo' as any, 'bar'))
+        .throws('Cannot override "foo", as it isn\'t injected in HttpClient.');
+    });
+  });
+});
@@ -0,0 +1,12 @@
+// error: "Type '\"userId\"' is not assignable to type 'InjectionToken<TChildContext<Database, \"db\"> & AssistedContext<never>>'"
+import { rootInjector, tokens } from '../src/index';
+
+class Database { }
+class UserSession {
+  constructor(public readonly db: Database, public readonly userId: string) { }
+  public static inject = tokens('db', 'userId');
+}
+
+rootInjector
+  .provideClass('db', Database)
+  .provideAssistedFactory('sessionFactory', UserSession, []);
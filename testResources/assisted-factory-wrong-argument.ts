@@ -0,0 +1,13 @@
+// error: "Argument of type '42' is not assignable to parameter of type 'string'"
+import { rootInjector, tokens } from '../src/index';
+
+class Database { }
+class UserSession {
+  constructor(public readonly db: Database, public readonly userId: string) { }
+  public static inject = tokens('db', 'userId');
+}
+
+rootInjector
+  .provideClass('db', Database)
+  .provideAssistedFactory('sessionFactory', UserSession, ['userId'])
+  .resolve('sessionFactory')(42);
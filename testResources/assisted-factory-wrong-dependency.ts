@@ -0,0 +1,12 @@
+// error: "Type 'Database' is not assignable to type 'string'"
+import { rootInjector, tokens } from '../src/index';
+
+class Database { }
+class UserSession {
+  constructor(public readonly db: string, public readonly userId: string) { }
+  public static inject = tokens('db', 'userId');
+}
+
+rootInjector
+  .provideClass('db', Database)
+  .provideAssistedFactory('sessionFactory', UserSession, ['userId']);
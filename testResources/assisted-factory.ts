@@ -0,0 +1,20 @@
+// error: false
+import { rootInjector, tokens, Injector } from '../src/index';
+
+class Database { }
+class UserSession {
+  constructor(public readonly db: Database, public readonly userId: string, public readonly timeout: number) { }
+  public static inject = tokens('db', 'userId', 'timeout');
+}
+class LoginController {
+  constructor(public readonly createSession: (timeout: number, userId: string) => UserSession) { }
+  public static inject = tokens('sessionFactory');
+}
+
+const injector = rootInjector
+  .provideClass('db', Database)
+  .provideAssistedFactory('sessionFactory', UserSession, ['timeout', 'userId']);
+const session: UserSession = injector.resolve('sessionFactory')(1000, 'user-1');
+const controller: LoginController = injector.injectClass(LoginController);
+const sessionInjector: Injector<{ sessionFactory: (timeout: number, userId: string) => UserSession }> = injector;
+console.log(session, controller, sessionInjector);
@@ -0,0 +1,11 @@
+// error: "Type 'Promise<number>' is not assignable to type 'number'"
+import { rootInjector, tokens } from '../src/index';
+
+class Foo {
+  constructor(public answer: number) { }
+  public static inject = tokens('answer');
+}
+
+rootInjector
+  .provideAsyncFactory('answer', () => Promise.resolve(42))
+  .injectClass(Foo);
@@ -0,0 +1,11 @@
+// error: false
+import { rootInjector, tokens } from '../src/index';
+
+class Foo {
+  constructor(public answer: number) { }
+  public static inject = tokens('answer');
+}
+
+const foo: Promise<Foo> = rootInjector
+  .provideAsyncFactory('answer', () => Promise.resolve(42))
+  .injectClassAsync(Foo);
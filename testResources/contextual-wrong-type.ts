@@ -0,0 +1,11 @@
+// error: "Type 'number' is not assignable to type 'string'"
+import { rootInjector } from '../src/index';
+
+class Service { }
+
+rootInjector
+  .provideValue('answer', 42)
+  .provideContextual('timeout', {
+    default: () => 1000,
+    rules: [{ target: Service, use: () => 'forever' }]
+  });
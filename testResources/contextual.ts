@@ -0,0 +1,29 @@
+// error: false
+import { rootInjector, tokens, Injector } from '../src/index';
+
+class Logger {
+  constructor(public readonly name: string) { }
+}
+class Repository {
+  constructor(public readonly logger: Logger) { }
+  public static inject = tokens('logger');
+}
+class Service {
+  constructor(public readonly logger: Logger, public readonly repository: Repository) { }
+  public static inject = tokens('logger', 'repository');
+}
+
+const injector = rootInjector
+  .provideValue('prefix', 'app')
+  .provideContextual('logger', {
+    default: (_, injector) => new Logger(injector.resolve('prefix')),
+    rules: [
+      { target: Service, use: () => new Logger('service') },
+      { targetExtends: Repository, use: target => new Logger(target.name) },
+      { when: target => target.name.endsWith('Controller'), use: target => new Logger(target.name) }
+    ]
+  })
+  .provideClass('repository', Repository);
+const service: Service = injector.injectClass(Service);
+const loggerInjector: Injector<{ logger: Logger }> = injector;
+console.log(service, loggerInjector);
@@ -0,0 +1,6 @@
+// error: "Argument of type '\"answer\"' is not assignable to parameter of type '\"question\"'"
+import { rootInjector } from '../src/index';
+
+rootInjector
+  .provideValue('question', 'What is the answer?')
+  .provideDecorator('answer', (answer: string) => answer);
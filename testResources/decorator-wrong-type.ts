@@ -0,0 +1,6 @@
+// error: "Type 'string' is not assignable to type 'number'"
+import { rootInjector } from '../src/index';
+
+rootInjector
+  .provideValue('answer', 42)
+  .provideDecorator('answer', answer => `${answer}`);
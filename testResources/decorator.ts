@@ -0,0 +1,17 @@
+// error: false
+import { rootInjector, createToken, tokens } from '../src/index';
+
+interface Logger { info(message: string): void; }
+const LOGGER = createToken<Logger>()('logger');
+
+class Service {
+  constructor(public readonly logger: Logger, public readonly log: Logger) { }
+  public static inject = tokens('logger', LOGGER);
+}
+
+const service: Service = rootInjector
+  .provideValue('logger', { info(_message: string) { } })
+  .provideValue(LOGGER, { info(_message: string) { } })
+  .provideDecorator('logger', logger => ({ info: (message: string) => logger.info(message.replace(/secret/g, '***')) }))
+  .provideDecorator(LOGGER, logger => logger)
+  .injectClass(Service);
@@ -0,0 +1,23 @@
+// error: false
+import { rootInjector, createToken, Injector } from '../src/index';
+
+interface Logger { info(message: string): void; }
+const FIRST_LOGGER = createToken<Logger>()('logger');
+const SECOND_LOGGER = createToken<Logger>()('logger');
+
+// Typed tokens with the same type and description can't be told apart at compile time
+rootInjector
+  .provideValue(FIRST_LOGGER, { info() { } })
+  .provideValue(SECOND_LOGGER, { info() { } });
+
+// Neither can tokens of an injector without a known context
+function provideAnswer(injector: Injector<any>) {
+  return injector.provideValue('answer', 42);
+}
+provideAnswer(rootInjector.provideValue('answer', 42));
+
+// Multi providers can still contribute to a token
+class Plugin { }
+rootInjector
+  .provideMulti('plugins', Plugin)
+  .provideMulti('plugins', Plugin);
@@ -0,0 +1,11 @@
+// error: "Property 'alreadyProvided' is missing in type 'UserSession' but required in type 'AlreadyProvided<\"sessionFactory\">'"
+import { rootInjector, tokens } from '../src/index';
+
+class UserSession {
+  constructor(public readonly userId: string) { }
+  public static inject = tokens('userId');
+}
+
+rootInjector
+  .provideValue('sessionFactory', 42)
+  .provideAssistedFactory('sessionFactory', UserSession, ['userId']);
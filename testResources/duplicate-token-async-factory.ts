@@ -0,0 +1,6 @@
+// error: "Type 'string' is not assignable to type 'AlreadyProvided<\"foo\">'"
+import { rootInjector } from '../src/index';
+
+rootInjector
+  .provideAsyncFactory('foo', async () => 'foo')
+  .provideAsyncFactory('foo', async () => 'bar');
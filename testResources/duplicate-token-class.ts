@@ -0,0 +1,9 @@
+// error: "Argument of type 'typeof Bar' is not assignable to parameter of type 'InjectableClass<TChildContext<Foo, \"foo\">, AlreadyProvided<\"foo\">, []>'"
+import { rootInjector } from '../src/index';
+
+class Foo { }
+class Bar { }
+
+rootInjector
+  .provideClass('foo', Foo)
+  .provideClass('foo', Bar);
@@ -0,0 +1,8 @@
+// error: "AlreadyProvided<\"plugins\">"
+import { rootInjector } from '../src/index';
+
+class Plugin { }
+
+rootInjector
+  .provideValue('plugins', 42)
+  .provideMulti('plugins', Plugin);
@@ -0,0 +1,6 @@
+// error: "Argument of type '\"42\"' is not assignable to parameter of type 'AlreadyProvided<\"answer\">'"
+import { rootInjector } from '../src/index';
+
+rootInjector
+  .provideValue('answer', 42)
+  .provideValue('answer', '42');
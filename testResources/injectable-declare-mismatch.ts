@@ -0,0 +1,8 @@
+// error: "Type '[\"bar\", \"baz\"]' is not assignable to type '[\"baz\", \"bar\"]'"
+import { injectable } from '../src/index';
+
+@injectable('baz', 'bar')
+class Foo {
+  declare public static inject: ['bar', 'baz'];
+  constructor(bar: string, baz: number) { }
+}
@@ -0,0 +1,16 @@
+// error: false
+import { rootInjector, injectable } from '../src/index';
+
+@injectable('bar', 'baz')
+class Foo {
+  declare public static inject: ['bar', 'baz'];
+  constructor(public bar: string, public baz: number) { }
+}
+
+const createQux = injectable('foo', 'baz')((foo: Foo, baz: number) => ({ foo, baz }));
+
+const qux: { foo: Foo, baz: number } = rootInjector
+  .provideValue('bar', 'bar')
+  .provideValue('baz', 42)
+  .provideClass('foo', Foo)
+  .injectFunction(createQux);
@@ -0,0 +1,11 @@
+// error: "Property 'inject' is missing in type 'typeof Foo'"
+import { rootInjector, injectable } from '../src/index';
+
+@injectable('bar')
+class Foo {
+  constructor(bar: string) { }
+}
+
+const foo: Foo = rootInjector
+  .provideValue('bar', 'bar')
+  .injectClass(Foo);
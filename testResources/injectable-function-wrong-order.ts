@@ -0,0 +1,9 @@
+// error: "Types of parameters 'bar' and 'args_0' are incompatible"
+import { rootInjector, injectable } from '../src/index';
+
+const createFoo = injectable('baz', 'bar')((bar: string, baz: number) => ({ bar, baz }));
+
+const foo = rootInjector
+  .provideValue('bar', 'bar')
+  .provideValue('baz', 42)
+  .injectFunction(createFoo);
@@ -0,0 +1,13 @@
+// error: "Types of parameters 'bar' and 'args_0' are incompatible"
+import { rootInjector, injectable } from '../src/index';
+
+@injectable('baz', 'bar')
+class Foo {
+  declare public static inject: ['baz', 'bar'];
+  constructor(bar: string, baz: number) { }
+}
+
+const foo: Foo = rootInjector
+  .provideValue('bar', 'bar')
+  .provideValue('baz', 42)
+  .injectClass(Foo);
@@ -0,0 +1,10 @@
+// error: false
+import { rootInjector, createToken, InterceptorContext } from '../src/index';
+
+interface Logger { info(message: string): void; }
+const LOGGER = createToken<Logger>()('logger');
+
+const logger: Logger = rootInjector
+  .provideValue(LOGGER, { info() { } })
+  .intercept(LOGGER, (log: Logger, { token, target }: InterceptorContext) => ({ info: message => log.info(`[${String(token)}] [${target && target.name}] ${message}`) }))
+  .resolve(LOGGER);
@@ -0,0 +1,11 @@
+// error: "Type 'number' is not assignable to type 'string'"
+import { rootInjector, tokens, lazyLater } from '../src/index';
+
+class A {
+  constructor(public getB: () => string) { }
+  public static inject = tokens(lazyLater<number>()('b'));
+}
+
+rootInjector
+  .provideClass('a', A)
+  .provideValue('b', 42);
@@ -0,0 +1,18 @@
+// error: false
+import { rootInjector, tokens, lazy, lazyLater } from '../src/index';
+
+class A {
+  constructor(public getB: () => B) { }
+  public static inject = tokens(lazyLater<B>()('b'));
+}
+
+class B {
+  constructor(public a: A, public getA: () => A) { }
+  public static inject = tokens('a', lazy('a'));
+}
+
+const b: B = rootInjector
+  .provideClass('a', A)
+  .provideClass('b', B)
+  .resolve('b');
+const sameB: B = b.a.getB();
@@ -0,0 +1,15 @@
+// error: "Type 'LazyToken<\"bar\">' is not assignable to type 'InjectionToken<TChildContext<number, \"baz\">>'"
+import { rootInjector, tokens, lazy } from '../src/index';
+
+class Bar {
+  public bar = 'bar';
+}
+
+class Foo {
+  constructor(public createBar: () => Bar) { }
+  public static inject = tokens(lazy('bar'));
+}
+
+rootInjector
+  .provideValue('baz', 42)
+  .injectClass(Foo);
@@ -0,0 +1,16 @@
+// error: false
+import { rootInjector, tokens, lazy } from '../src/index';
+
+class Bar {
+  public bar = 'bar';
+}
+
+class Foo {
+  constructor(public createBar: () => Bar, public baz: number) { }
+  public static inject = tokens(lazy('bar'), 'baz');
+}
+
+const foo: Foo = rootInjector
+  .provideClass('bar', Bar)
+  .provideValue('baz', 42)
+  .injectClass(Foo);
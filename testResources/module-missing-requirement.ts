@@ -0,0 +1,11 @@
+// error: "Property 'config' is missing"
+import { rootInjector, createModule, tokens } from '../src/index';
+
+class Config { public readonly url = 'db://localhost'; }
+class Db {
+  constructor(public readonly config: Config) { }
+  public static inject = tokens('config');
+}
+
+const dbModule = createModule<{ config: Config }>()(injector => injector.provideClass('db', Db));
+rootInjector.provideValue('port', 8080).use(dbModule);
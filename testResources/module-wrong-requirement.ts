@@ -0,0 +1,11 @@
+// error: "Type 'string' is not assignable to type 'Config'"
+import { rootInjector, createModule, tokens } from '../src/index';
+
+class Config { public readonly url = 'db://localhost'; }
+class Db {
+  constructor(public readonly config: Config) { }
+  public static inject = tokens('config');
+}
+
+const dbModule = createModule<{ config: Config }>()(injector => injector.provideClass('db', Db));
+rootInjector.provideValue('config', 'db://localhost').use(dbModule);
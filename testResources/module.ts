@@ -0,0 +1,23 @@
+// error: false
+import { rootInjector, createModule, tokens } from '../src/index';
+
+class Config { public readonly url = 'db://localhost'; }
+class Db {
+  constructor(public readonly config: Config) { }
+  public static inject = tokens('config');
+}
+class Repository {
+  constructor(public readonly db: Db) { }
+  public static inject = tokens('db');
+}
+
+const dbModule = createModule<{ config: Config }>()(injector => injector.provideClass('db', Db));
+const repositoryModule = createModule<{ config: Config }>()(injector => injector.use(dbModule).provideClass('repository', Repository));
+
+const injector = rootInjector
+  .provideValue('config', new Config())
+  .provideValue('port', 8080)
+  .use(repositoryModule);
+const db: Db = injector.resolve('db');
+const repository: Repository = injector.resolve('repository');
+const port: number = injector.resolve('port');
@@ -0,0 +1,9 @@
+// error: "Argument of type 'typeof FooPlugin' is not assignable to parameter of type 'InjectableClass<{}, never, []>'"
+import { rootInjector, createToken } from '../src/index';
+
+class FooPlugin {
+  public name = 'foo';
+}
+
+const PLUGIN = createToken<FooPlugin>()('plugin');
+rootInjector.provideMulti(PLUGIN, FooPlugin);
@@ -0,0 +1,14 @@
+// error: "Property 'bar' is missing in type 'FooPlugin' but required in type 'BarPlugin'"
+import { rootInjector } from '../src/index';
+
+class FooPlugin {
+  public name = 'foo';
+}
+class BarPlugin {
+  public name = 'bar';
+  public bar = true;
+}
+
+rootInjector
+  .provideMulti('plugins', BarPlugin)
+  .provideMulti('plugins', FooPlugin);
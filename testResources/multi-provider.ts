@@ -0,0 +1,27 @@
+// error: false
+import { rootInjector, createToken } from '../src/index';
+
+interface Plugin {
+  name: string;
+}
+class FooPlugin implements Plugin {
+  public name = 'foo';
+}
+class BarPlugin implements Plugin {
+  public name = 'bar';
+  public bar = true;
+}
+class BazPlugin extends FooPlugin {
+  public baz = true;
+}
+
+const PLUGINS = createToken<Plugin[]>()('plugins');
+const plugins: Plugin[] = rootInjector
+  .provideMulti(PLUGINS, FooPlugin)
+  .provideMulti(PLUGINS, BarPlugin)
+  .resolve(PLUGINS);
+
+const fooPlugins: FooPlugin[] = rootInjector
+  .provideMulti('fooPlugins', FooPlugin)
+  .provideMulti('fooPlugins', BazPlugin)
+  .resolve('fooPlugins');
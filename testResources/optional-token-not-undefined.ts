@@ -0,0 +1,15 @@
+// error: "Type 'undefined' is not assignable to type 'Metrics'"
+import { rootInjector, tokens, optional } from '../src/index';
+
+interface Metrics {
+  report(): void;
+}
+
+class Foo {
+  constructor(public metrics: Metrics) { }
+  public static inject = tokens(optional('metrics'));
+}
+
+rootInjector
+  .provideValue('metrics', { report() { } })
+  .injectClass(Foo);
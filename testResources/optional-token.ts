@@ -0,0 +1,19 @@
+// error: false
+import { rootInjector, tokens, optional } from '../src/index';
+
+interface Metrics {
+  report(): void;
+}
+
+class Foo {
+  constructor(public metrics: Metrics | undefined, public bar: number) { }
+  public static inject = tokens(optional('metrics'), 'bar');
+}
+
+const withoutMetrics: Foo = rootInjector
+  .provideValue('bar', 42)
+  .injectClass(Foo);
+const withMetrics: Foo = rootInjector
+  .provideValue('bar', 42)
+  .provideValue('metrics', { report() { } })
+  .injectClass(Foo);
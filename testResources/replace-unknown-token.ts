@@ -0,0 +1,8 @@
+// error: "Argument of type '\"logger\"' is not assignable to parameter of type '\"greeter\"'"
+import { rootInjector } from '../src/index';
+
+class Greeter { }
+
+rootInjector
+  .provideClass('greeter', Greeter)
+  .replace('logger', Greeter);
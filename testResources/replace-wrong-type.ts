@@ -0,0 +1,15 @@
+// error: "Property 'greet' is missing in type 'Logger' but required in type 'Greeter'"
+import { rootInjector } from '../src/index';
+
+class Greeter {
+  public greet() {
+    return 'hello';
+  }
+}
+class Logger {
+  public log() { }
+}
+
+rootInjector
+  .provideClass('greeter', Greeter)
+  .replace('greeter', Logger);
@@ -0,0 +1,19 @@
+// error: false
+import { rootInjector, tokens } from '../src/index';
+
+class Greeter {
+  public greet() {
+    return 'hello';
+  }
+}
+class LoudGreeter extends Greeter {
+  constructor(public readonly volume: number) {
+    super();
+  }
+  public static inject = tokens('volume');
+}
+
+const injector = rootInjector
+  .provideValue('volume', 11)
+  .provideClass('greeter', Greeter);
+injector.replace('greeter', LoudGreeter).then(() => injector.resolve('greeter').greet());
@@ -0,0 +1,10 @@
+// error: "Argument of type '42' is not assignable to parameter of type 'string'"
+import { createTestInjector } from '../src/testing';
+import { tokens } from '../src/index';
+
+class HttpClient {
+  constructor(public baseUrl: string) { }
+  public static inject = tokens('baseUrl');
+}
+
+createTestInjector(HttpClient).override('baseUrl', 42);
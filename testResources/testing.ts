@@ -0,0 +1,19 @@
+// error: false
+import { createTestInjector } from '../src/testing';
+import { tokens, createToken, optional, lazy, TARGET_TOKEN } from '../src/index';
+
+interface Logger { info(message: string): void; }
+const LOGGER = createToken<Logger>()('logger');
+
+class HttpClient {
+  constructor(public log: Logger, public baseUrl: string, public cache: Map<string, string> | undefined, public timeout: () => number, public target: Function | undefined) { }
+  public static inject = tokens(LOGGER, 'baseUrl', optional('cache'), lazy('timeout'), TARGET_TOKEN);
+}
+
+const testInjector = createTestInjector(HttpClient)
+  .override('baseUrl', 'http://localhost')
+  .override('cache', undefined)
+  .override('timeout', 42);
+const log: Logger = testInjector.resolve(LOGGER);
+const timeout: number = testInjector.resolve('timeout');
+const httpClient: HttpClient = testInjector.create();
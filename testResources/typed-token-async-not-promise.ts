@@ -0,0 +1,6 @@
+// error: "Type 'Promise<{ size: number; }>' is not assignable to type 'PromiseLike<never>'"
+import { rootInjector, createToken } from '../src/index';
+
+const POOL = createToken<{ size: number }>()('pool');
+
+rootInjector.provideAsyncFactory(POOL, () => Promise.resolve({ size: 3 }));
@@ -0,0 +1,17 @@
+// error: "Type '[TypedToken<Logger, \"auditLogger\">]' is not assignable to type 'InjectionToken<TChildContext<{ info(): void; }, TypedToken<Logger, \"appLogger\">>>[]'"
+import { rootInjector, tokens, createToken } from '../src/index';
+
+interface Logger {
+  info(message: string): void;
+}
+const APP_LOGGER = createToken<Logger>()('appLogger');
+const AUDIT_LOGGER = createToken<Logger>()('auditLogger');
+
+class AuditTrail {
+  constructor(public log: Logger) { }
+  public static inject = tokens(AUDIT_LOGGER);
+}
+
+rootInjector
+  .provideValue(APP_LOGGER, { info() { } })
+  .injectClass(AuditTrail);
@@ -0,0 +1,16 @@
+// error: "Type '[TypedToken<Logger, \"logger\">]' is not assignable to type 'InjectionToken<TChildContext<number, \"bar\">>[]'"
+import { rootInjector, tokens, createToken } from '../src/index';
+
+interface Logger {
+  info(message: string): void;
+}
+const LOGGER = createToken<Logger>()('logger');
+
+class Foo {
+  constructor(public log: Logger) { }
+  public static inject = tokens(LOGGER);
+}
+
+rootInjector
+  .provideValue('bar', 42)
+  .injectClass(Foo);
@@ -0,0 +1,9 @@
+// error: "Argument of type '42' is not assignable to parameter of type 'Logger'"
+import { rootInjector, createToken } from '../src/index';
+
+interface Logger {
+  info(message: string): void;
+}
+const LOGGER = createToken<Logger>()('logger');
+
+rootInjector.provideValue(LOGGER, 42);
@@ -0,0 +1,22 @@
+// error: false
+import { rootInjector, tokens, createToken } from '../src/index';
+
+interface Logger {
+  info(message: string): void;
+}
+const LOGGER = createToken<Logger>()('logger');
+const POOL = createToken<Promise<{ size: number }>>()('pool');
+
+class Foo {
+  constructor(public log: Logger, public bar: number) { }
+  public static inject = tokens(LOGGER, 'bar');
+}
+
+const injector = rootInjector
+  .provideValue(LOGGER, { info() { } })
+  .provideValue('bar', 42)
+  .provideAsyncFactory(POOL, () => Promise.resolve({ size: 3 }));
+const foo: Foo = injector.injectClass(Foo);
+const log: Logger = injector.resolve(LOGGER);
+const bar: number = injector.resolve('bar');
+const pool: Promise<{ size: number }> = injector.resolve(POOL);